@@ -46,11 +46,10 @@ function TodoItem({ id, text, completed }: { id: number; text: string; completed
 
 function TodoList() {
   const filtered = useTodos((s) => s.filtered);
-  const loading = useTodos((s) => s.loading);
-  const error = useTodos((s) => s.error);
+  const { running, error } = useTodos.useEffectStatus('fetchTodos');
 
-  if (loading) return <p>Loading...</p>;
-  if (error) return <p style={{ color: 'red' }}>Error: {error}</p>;
+  if (running) return <p>Loading...</p>;
+  if (error) return <p style={{ color: 'red' }}>Error: {error.message}</p>;
   if (filtered.length === 0) return <p>No todos.</p>;
 
   return (
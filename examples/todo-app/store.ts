@@ -9,8 +9,6 @@ export interface Todo {
 
 type TodoState = {
   items: Todo[];
-  loading: boolean;
-  error: string | null;
   filter: 'all' | 'active' | 'completed';
 };
 
@@ -19,8 +17,6 @@ let nextId = 100;
 export const useTodos = create({
   state: {
     items: [] as Todo[],
-    loading: false,
-    error: null as string | null,
     filter: 'all' as 'all' | 'active' | 'completed',
   },
   actions: {
@@ -48,19 +44,15 @@ export const useTodos = create({
     },
   },
   effects: {
+    // Loading and error state come from useTodos.useEffectStatus('fetchTodos')
     async fetchTodos({ set }: EffectHelpers<TodoState>) {
-      set((s) => { s.loading = true; s.error = null; });
-      try {
-        await new Promise((r) => setTimeout(r, 500));
-        const data: Todo[] = [
-          { id: 1, text: 'Learn zustand-immer-lite', completed: true },
-          { id: 2, text: 'Build an app', completed: false },
-          { id: 3, text: 'Ship it!', completed: false },
-        ];
-        set((s) => { s.items = data; s.loading = false; });
-      } catch (e: any) {
-        set((s) => { s.error = e.message; s.loading = false; });
-      }
+      await new Promise((r) => setTimeout(r, 500));
+      const data: Todo[] = [
+        { id: 1, text: 'Learn zustand-immer-lite', completed: true },
+        { id: 2, text: 'Build an app', completed: false },
+        { id: 3, text: 'Ship it!', completed: false },
+      ];
+      set((s) => { s.items = data; });
     },
   },
   mutations: {
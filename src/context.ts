@@ -0,0 +1,68 @@
+import { createContext, createElement, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
+import { createUnstarted, startStore, type StoreConfigShape, type StoreConfig, type StoreFromConfig } from './create';
+import { flattenSlices } from './slice';
+
+export interface StoreProviderProps<S> {
+  /** Overrides merged over the config's `state` for this instance */
+  initialState?: Partial<S>;
+  children?: ReactNode;
+}
+
+/**
+ * Creates a store per mounted `<Provider>` instead of a module-level
+ * singleton, for SSR requests, tests, or the same widget rendered twice.
+ * The instance starts (subscribes to its dependency stores and runs
+ * middleware setup) when its Provider mounts and is destroyed when it
+ * unmounts.
+ * `useStore` reads the nearest instance; `useStoreApi` returns the instance
+ * itself (actions, queries, mutations, getState, ...).
+ */
+export function createStoreContext<C extends StoreConfigShape>(config: StoreConfig<C>) {
+  type Store = StoreFromConfig<C>;
+  type State = ReturnType<Store['getState']>;
+  type InitialState = ReturnType<Store['getInitialState']>;
+
+  // Flatten once so initialState can override slice state too
+  const base = flattenSlices(config);
+  const StoreContext = createContext<Store | null>(null);
+
+  function Provider({ initialState, children }: StoreProviderProps<InitialState>) {
+    // One instance for the Provider's lifetime; later initialState changes are ignored.
+    // StrictMode renders twice and drops the first instance, which never starts.
+    const [store] = useState(() =>
+      createUnstarted<C>({ ...base, state: { ...base.state, ...initialState } }) as Store);
+
+    // Destroy the instance on unmount. StrictMode unmounts and remounts
+    // effects synchronously, so wait a microtask to tell the two apart.
+    const mounted = useRef(false);
+    useEffect(() => {
+      mounted.current = true;
+      startStore(store);
+      return () => {
+        mounted.current = false;
+        queueMicrotask(() => {
+          if (!mounted.current) store.destroy();
+        });
+      };
+    }, [store]);
+
+    return createElement(StoreContext.Provider, { value: store }, children);
+  }
+
+  function useStoreApi(): Store {
+    const store = useContext(StoreContext);
+    if (!store) {
+      throw new Error('[zustand-immer-lite] useStore() and useStoreApi() must be used inside the store\'s <Provider>.');
+    }
+    return store;
+  }
+
+  function useStore(): State;
+  function useStore<R>(selector: (state: State) => R, equalityFn?: (a: R, b: R) => boolean): R;
+  function useStore(selector?: (state: State) => any, equalityFn?: (a: any, b: any) => boolean) {
+    // The instance hook treats a missing selector as "select everything"
+    return useStoreApi()(selector as (state: State) => any, equalityFn);
+  }
+
+  return { Provider, useStore, useStoreApi };
+}
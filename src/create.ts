@@ -1,31 +1,144 @@
-import { produce, type Draft } from 'immer';
+import { produceWithPatches, applyPatches, enablePatches, type Draft, type Patch } from 'immer';
 import { useSyncExternalStore, useRef, useCallback } from 'react';
-import type { SetState, EffectHelpers, UseStore, PersistConfig } from './types';
+import type {
+  SetState, UseStore, PersistConfig, HistoryConfig,
+  CommitMeta, CommitContext, PatchListener, ActionEvent, ActionListener, StoreMiddleware, DevtoolsConfig, ResetOptions,
+  AsyncComputedValue, EffectConfig, EffectConcurrency, SliceConfig, InferSliceState,
+  DependencyStore, InferDependencies, ValidationResult, InvalidStateEvent, PersistApi,
+} from './types';
 import { createQueryHook } from './query';
 import { createMutationHook } from './mutation';
 import { createInfiniteQueryHook } from './infinite-query';
-import { hydrateState, persistState } from './middleware/persist';
+import { persist } from './middleware/persist';
+import { devtools } from './middleware/devtools';
+import { createStateCheck, validation } from './middleware/validate';
+import { runCommitMiddleware, runEffectMiddleware } from './middleware/pipeline';
+import { createHistory } from './history';
+import { createSelector } from './selectors';
+import { createEffectRunner, createEffectStatusStore } from './effects';
+import { trackShallow, trackDeep, depsChanged, type ComputedTracking } from './tracking';
+import { flattenSlices, nestNamespaced, NAMESPACE_SEPARATOR } from './slice';
+import { dependencyView, subscribeDependencies } from './dependencies';
+import { registerStoreInternals } from './ssr';
+import { rollbackState, type TransactionCommit } from './transaction';
+import { readonly } from './strict';
+
+enablePatches();
+
+// Commit sources that are recorded as undoable history steps
+const RECORDED_COMMITS = new Set<CommitMeta['type']>(['action', 'setState', 'effect']);
+
+/**
+ * Produce top-level patches that turn `prev` into `next`, for commits whose
+ * state was replaced by a middleware rather than produced by a recipe.
+ */
+const diffState = <S extends Record<string, any>>(prev: S, next: S) =>
+  produceWithPatches(prev, (draft: Record<string, any>) => {
+    for (const key of Object.keys(draft)) {
+      if (!(key in next)) delete draft[key];
+    }
+    for (const key of Object.keys(next)) {
+      if (!Object.is(prev[key], next[key])) draft[key] = next[key];
+    }
+  }) as [S, Patch[], Patch[]];
 
-export function create<C extends {
+/** Constraint for a `create()` config; `StoreConfig` adds contextual typing */
+export type StoreConfigShape = {
   state: Record<string, any>;
   actions?: Record<string, (...args: any[]) => any>;
-  effects?: Record<string, (...args: any[]) => any>;
-  computed?: Record<string, (state: any) => any>;
+  effects?: Record<string, ((...args: any[]) => any) | { fn: (...args: any[]) => any; concurrency?: EffectConcurrency; wait?: number }>;
+  computed?: Record<string, (state: any, deps: any) => any>;
+  selectors?: Record<string, (state: any, ...args: any[]) => any>;
   queries?: Record<string, { fn: (...args: any[]) => Promise<any>; staleTime?: number; refetchInterval?: number; maxCacheSize?: number; infinite?: boolean; getNextPageParam?: any; getPreviousPageParam?: any }>;
   mutations?: Record<string, { fn: (...args: any[]) => Promise<any>; onSuccess?: any; onError?: any; onSettled?: any }>;
   persist?: PersistConfig<any>;
-}>(
-  config: C & {
-    state: C['state'];
-    actions?: { [K in keyof C['actions']]: (state: Draft<C['state']>, ...args: any[]) => void };
-    effects?: { [K in keyof C['effects']]: (helpers: EffectHelpers<C['state']>, ...args: any[]) => Promise<any> };
-    computed?: { [K in keyof C['computed']]: (state: C['state']) => any };
-    queries?: C['queries'];
-    mutations?: C['mutations'];
-    persist?: PersistConfig<C['state']>;
-  },
-): UseStore<C['state'], NonNullable<C['actions']>, NonNullable<C['effects']>, NonNullable<C['computed']>, NonNullable<C['queries']>, NonNullable<C['mutations']>> {
+  history?: boolean | HistoryConfig;
+  middleware?: StoreMiddleware<any>[];
+  devtools?: DevtoolsConfig;
+  computedTracking?: ComputedTracking;
+  slices?: Record<string, SliceConfig>;
+  dependsOn?: Record<string, DependencyStore>;
+  validate?: (state: any) => ValidationResult;
+  onInvalid?: (event: InvalidStateEvent<any>) => void;
+  rejectInvalid?: boolean;
+  strict?: boolean;
+};
+
+export type StoreConfig<C extends StoreConfigShape> = C & {
+  state: C['state'];
+  actions?: { [K in keyof C['actions']]: (state: Draft<C['state']>, ...args: any[]) => void };
+  // A union of fn / config here would leave the helpers implicitly `any`
+  effects?: C['effects'];
+  computed?: {
+    [K in keyof C['computed']]: (state: C['state'], deps: InferDependencies<NonNullable<C['dependsOn']>>) => any;
+  };
+  selectors?: { [K in keyof C['selectors']]: (state: C['state'] & Record<string, any>, ...args: any[]) => any };
+  queries?: C['queries'];
+  mutations?: C['mutations'];
+  persist?: PersistConfig<C['state']>;
+  history?: boolean | HistoryConfig;
+  // StoreMiddleware<C['state']> would reject a middleware typed for the state
+  // while C is still being inferred around context-sensitive actions
+  middleware?: C['middleware'];
+  devtools?: DevtoolsConfig;
+  computedTracking?: ComputedTracking;
+  slices?: C['slices'];
+  dependsOn?: C['dependsOn'];
+  // Typed from C itself for the same reason as `middleware`
+  validate?: C['validate'];
+  onInvalid?: C['onInvalid'];
+  rejectInvalid?: boolean;
+  strict?: boolean;
+};
+
+export type StoreFromConfig<C extends StoreConfigShape> = UseStore<
+  C['state'] & InferSliceState<NonNullable<C['slices']>>,
+  NonNullable<C['actions']>,
+  NonNullable<C['effects']>,
+  NonNullable<C['computed']>,
+  NonNullable<C['queries']>,
+  NonNullable<C['mutations']>,
+  NonNullable<C['selectors']>,
+  NonNullable<C['slices']>
+>;
+
+// ─── Deferred start ───────────────────────────────────────────────────
+// Set while createUnstarted() runs create()
+let deferringStart = false;
+// Start of each store created by createUnstarted() that has not started yet
+const pendingStarts = new WeakMap<object, () => void>();
+
+/**
+ * Create a store that only subscribes to its dependency stores and runs
+ * middleware setup once `startStore()` is called. A Provider starts the
+ * instance React keeps, so one discarded by a StrictMode double render
+ * holds no listeners, channels or DevTools connection.
+ */
+export function createUnstarted<C extends StoreConfigShape>(config: StoreConfig<C>): StoreFromConfig<C> {
+  deferringStart = true;
+  try {
+    return create(config);
+  } finally {
+    deferringStart = false;
+  }
+}
+
+/** Start a store created by `createUnstarted()`; later calls do nothing */
+export function startStore(store: object): void {
+  const start = pendingStarts.get(store);
+  pendingStarts.delete(store);
+  start?.();
+}
+
+export function create<C extends StoreConfigShape>(
+  config: StoreConfig<C>,
+): StoreFromConfig<C> {
   type S = C['state'];
+  const deferStart = deferringStart;
+  deferringStart = false;
+
+  // Slices become namespaced ("todos/add") members of a flat config
+  config = flattenSlices(config);
 
   let rawState: S = config.state;
   let computedValues: Record<string, any> = {};
@@ -34,12 +147,27 @@ export function create<C extends {
 
   // ─── Computed (with Proxy-based dependency tracking) ────────────────
   const computedKeys = config.computed ? Object.keys(config.computed) : [];
-  // deps[key] = Set of state keys that computed[key] accessed
-  const deps = new Map<string, Set<string>>();
+  const computedKeySet = new Set(computedKeys);
+  // slices with computed values, exposed under their slice key
+  const sliceNames = [...new Set(computedKeys
+    .filter((key) => key.includes(NAMESPACE_SEPARATOR))
+    .map((key) => key.slice(0, key.indexOf(NAMESPACE_SEPARATOR))))];
+  const trackDeps = config.computedTracking === 'deep' ? trackDeep : trackShallow;
+  // deps[key] = paths that computed[key] read (single keys in shallow mode)
+  const deps = new Map<string, string[][]>();
   // cached result per computed key
   const cachedResults = new Map<string, any>();
   // previous rawState ref for diffing changed keys
   let prevRawState: S | undefined = undefined;
+  // latest run id per async computed key — older promises are discarded
+  const asyncRunId = new Map<string, number>();
+  // async computed keys that settled since the last recompute
+  const settledAsyncKeys = new Set<string>();
+  const dependsOn = config.dependsOn ?? {};
+  // dependencyReads[key] = names of the dependency stores computed[key] read
+  const dependencyReads = new Map<string, Set<string>>();
+  // dependency stores that changed since the last recompute
+  const changedDependencies = new Set<string>();
 
   // Warn if computed key collides with state key (dev only)
   if (config.computed) {
@@ -55,23 +183,45 @@ export function create<C extends {
   }
 
   /**
-   * Track dependencies of a computed fn by using a Proxy that records
-   * which keys are read from the state object.
+   * Turn the promise returned by an async computed fn into a
+   * `{ value, loading, error }` entry. The previous value is kept while
+   * loading; when the promise settles the entry is replaced, unless a newer
+   * run of the same key has started since.
    */
-  const trackDeps = (fn: Function, stateObj: Record<string, any>): { result: any; accessed: Set<string> } => {
-    const accessed = new Set<string>();
-    const proxy = new Proxy(stateObj, {
-      get(target, prop, receiver) {
-        if (typeof prop === 'string') accessed.add(prop);
-        return Reflect.get(target, prop, receiver);
-      },
-    });
-    const result = fn(proxy);
-    return { result, accessed };
+  const trackAsyncComputed = (
+    key: string,
+    promise: PromiseLike<any>,
+    unwrap: (value: any) => any,
+  ): AsyncComputedValue<any> => {
+    const runId = (asyncRunId.get(key) ?? 0) + 1;
+    asyncRunId.set(key, runId);
+
+    const settle = (update: (prev: AsyncComputedValue<any> | undefined) => AsyncComputedValue<any>) => {
+      if (asyncRunId.get(key) !== runId) return;
+      cachedResults.set(key, update(cachedResults.get(key)));
+      settledAsyncKeys.add(key);
+      if (batchDepth > 0) {
+        isStale = true;
+        return;
+      }
+      recompute();
+      notify();
+    };
+
+    promise.then(
+      (value) => settle(() => ({ value: unwrap(value), loading: false, error: null })),
+      (e) => settle((prev) => ({
+        value: prev?.value,
+        loading: false,
+        error: e instanceof Error ? e : new Error(String(e)),
+      })),
+    );
+
+    return { value: cachedResults.get(key)?.value, loading: true, error: null };
   };
 
   const recompute = () => {
-    if (!config.computed) {
+    if (computedKeys.length === 0) {
       exposedState = rawState;
       return;
     }
@@ -88,6 +238,9 @@ export function create<C extends {
         }
       }
     }
+    // Settled async computed values cascade like changed keys
+    for (const k of settledAsyncKeys) changedKeys.add(k);
+    settledAsyncKeys.clear();
 
     // Build state proxy that includes already-computed values for chaining
     const stateObj: Record<string, any> = { ...rawState };
@@ -95,18 +248,13 @@ export function create<C extends {
     for (const key of computedKeys) {
       const prevDeps = deps.get(key);
       const hasCached = cachedResults.has(key);
+      const prevReads = dependencyReads.get(key);
+      const readsChanged = prevReads !== undefined && [...prevReads].some((name) => changedDependencies.has(name));
 
       // Skip recompute if: has cached result AND deps are tracked AND none of
-      // the deps are in changedKeys (also check computed deps via cascade)
-      if (hasCached && prevDeps && prevDeps.size > 0) {
-        let needsRecompute = false;
-        for (const dep of prevDeps) {
-          if (changedKeys.has(dep)) {
-            needsRecompute = true;
-            break;
-          }
-        }
-        if (!needsRecompute) {
+      // the dep paths or dependency stores changed (also check computed deps via cascade)
+      if (hasCached && prevDeps && (prevDeps.length > 0 || prevReads?.size) && !readsChanged) {
+        if (!depsChanged(prevDeps, rawState, prevRawState ?? {}, changedKeys, computedKeySet)) {
           // Reuse cached result
           stateObj[key] = cachedResults.get(key);
           continue;
@@ -114,8 +262,16 @@ export function create<C extends {
       }
 
       // Recompute with dependency tracking
-      const { result, accessed } = trackDeps(config.computed[key] as Function, stateObj);
-      deps.set(key, accessed);
+      const fn = config.computed![key] as Function;
+      const reads = new Set<string>();
+      const depsView = dependencyView(dependsOn, reads);
+      const tracked = trackDeps((state: any) => fn(state, depsView), stateObj);
+      deps.set(key, tracked.deps);
+      dependencyReads.set(key, reads);
+      // Async computed: expose { value, loading, error } instead of the promise
+      const result = typeof tracked.result?.then === 'function'
+        ? trackAsyncComputed(key, tracked.result, tracked.unwrap)
+        : tracked.result;
 
       if (!Object.is(result, cachedResults.get(key))) {
         // Mark this computed key as "changed" so downstream computed that
@@ -128,39 +284,219 @@ export function create<C extends {
     }
 
     prevRawState = rawState;
+    changedDependencies.clear();
 
     const next: Record<string, any> = {};
     for (const key of computedKeys) {
       next[key] = cachedResults.get(key);
     }
     computedValues = next;
-    exposedState = { ...rawState, ...computedValues };
+    exposedState = exposeComputed();
+  };
+
+  // Merged `{ ...sliceState, ...sliceComputed }` objects, kept while unchanged
+  const sliceViews = new Map<string, { base: any; values: Record<string, any>; merged: any }>();
+
+  /**
+   * Merge computed values into the raw state. Namespaced slice computed
+   * values ("todos/activeCount") are exposed inside their slice's object,
+   * which keeps its identity as long as neither part changed.
+   */
+  const exposeComputed = () => {
+    const exposed: Record<string, any> = { ...rawState };
+    const namespaced = nestNamespaced(computedValues);
+    for (const key of computedKeys) {
+      if (!key.includes(NAMESPACE_SEPARATOR)) exposed[key] = computedValues[key];
+    }
+    for (const name of sliceNames) {
+      const values = namespaced[name];
+      const base = (rawState as any)[name];
+      const cached = sliceViews.get(name);
+      if (cached && cached.base === base && Object.keys(values).every((k) => Object.is(values[k], cached.values[k]))) {
+        exposed[name] = cached.merged;
+        continue;
+      }
+      const merged = { ...base, ...values };
+      sliceViews.set(name, { base, values, merged });
+      exposed[name] = merged;
+    }
+    return exposed;
   };
 
   // Initial compute
   recompute();
 
-  // Hydrate from storage if persist is configured
-  if (config.persist) {
-    rawState = hydrateState(rawState, config.persist);
-    recompute();
-    config.persist.onRehydrationFinished?.(exposedState);
+  // ─── Middleware ─────────────────────────────────────────────────────
+  // Persist is the first middleware so the others see the hydrated state;
+  // validation follows user middleware so it checks the final state;
+  // devtools is the last so it reports what was actually committed
+  const checkState = config.validate
+    ? createStateCheck<S>({ validate: config.validate, onInvalid: config.onInvalid, rejectInvalid: config.rejectInvalid })
+    : undefined;
+  const persistMiddleware = config.persist ? persist(config.persist, checkState) : undefined;
+  const middleware: StoreMiddleware<S>[] = [
+    ...(persistMiddleware ? [persistMiddleware] : []),
+    ...(config.middleware ?? []),
+    ...(checkState ? [validation(checkState)] : []),
+    ...(config.devtools ? [devtools<S>(config.devtools)] : []),
+  ];
+
+  for (const mw of middleware) {
+    if (mw.init) rawState = mw.init(rawState);
   }
+  if (rawState !== config.state) recompute();
 
   const notify = () => {
     listeners.forEach((fn) => fn());
-    if (config.persist) {
-      persistState(rawState, config.persist);
-    }
   };
 
+  // Set by destroy(); commits and effect calls are then ignored
+  let destroyed = false;
+
+  const warnDestroyed = (name: string) => {
+    console.warn(`[zustand-immer-lite] "${name}" was called after destroy(); the call is ignored.`);
+  };
+
+  // ─── Batching ───────────────────────────────────────────────────────
+  let batchDepth = 0;
+  // Raw state before the outermost batch started
+  let batchStartState: S | undefined;
+  // True when rawState changed inside a batch and computed values lag behind
+  let isStale = false;
+
   const commitState = (nextRaw: S) => {
     rawState = nextRaw;
+    if (batchDepth > 0) {
+      isStale = true;
+      return;
+    }
     recompute();
     notify();
   };
 
-  const getState = (): any => exposedState;
+  // ─── Patches (history + patch stream) ──────────────────────────────
+  const patchListeners = new Set<PatchListener>();
+  // Commit logs of the transactions in progress
+  const openTransactions = new Set<TransactionCommit[]>();
+  // Log of the transaction whose helpers are committing (commits are synchronous)
+  let committingTransaction: TransactionCommit[] | null = null;
+
+  /**
+   * Commit a new raw state together with the Immer patches that produced it.
+   * The commit runs through the middleware pipeline first; if a middleware
+   * replaces the state, patches are re-derived from the replacement.
+   * Records user commits for undo and feeds the patch stream. Returns
+   * false when a middleware vetoed the commit.
+   */
+  const commitPatches = (nextRaw: S, patches: Patch[], inversePatches: Patch[], meta: CommitMeta, args: any[]): boolean => {
+    if (destroyed) {
+      warnDestroyed(meta.name);
+      return false;
+    }
+    let committed = false;
+    const ctx: CommitContext<S> = { ...meta, args, prevState: rawState, nextState: nextRaw };
+    runCommitMiddleware(middleware, ctx, (finalRaw) => {
+      committed = true;
+      if (finalRaw !== nextRaw) {
+        [, patches, inversePatches] = diffState(ctx.prevState, finalRaw);
+      }
+      // A transaction's own commits are recorded as one step when it succeeds
+      if (config.history && RECORDED_COMMITS.has(meta.type) && !committingTransaction) record(patches, inversePatches);
+      commitState(finalRaw);
+      if (patches.length > 0) {
+        openTransactions.forEach((log) => log.push({
+          prevState: ctx.prevState, nextState: finalRaw, patches, inversePatches, own: log === committingTransaction,
+        }));
+        patchListeners.forEach((fn) => fn(patches, inversePatches, meta));
+      }
+      if (batchDepth > 0) return;
+      const applied = { ...ctx, nextState: finalRaw };
+      for (const mw of middleware) mw.afterCommit?.(applied);
+    });
+    return committed;
+  };
+
+  /**
+   * Run `fn` and coalesce every commit made inside it: computed values are
+   * recomputed, subscribers notified and afterCommit middleware (persist) run
+   * once when the outermost batch ends. The batch is one undo step.
+   */
+  const batch = <T>(fn: () => T): T => {
+    if (batchDepth === 0) batchStartState = rawState;
+    batchDepth++;
+    let result: T;
+    try {
+      history.group(() => { result = fn(); });
+    } finally {
+      batchDepth--;
+      if (batchDepth === 0) {
+        const prevState = batchStartState!;
+        batchStartState = undefined;
+        if (isStale) {
+          isStale = false;
+          recompute();
+          notify();
+          const committed: CommitContext<S> = {
+            type: 'batch', name: 'batch', args: [fn], prevState, nextState: rawState,
+          };
+          for (const mw of middleware) mw.afterCommit?.(committed);
+        }
+      }
+    }
+    return result!;
+  };
+
+  // ─── Store dependencies ─────────────────────────────────────────────
+  // Recompute the computed values that read a dependency store when it
+  // changes; notify only if one of them actually changed. Subscribed when
+  // the store starts; the listener set identifies this store in cycle
+  // detection.
+  let unsubscribeDependencies = () => {};
+  const onDependencyChange = (name: string) => {
+    if (![...dependencyReads.values()].some((reads) => reads.has(name))) return;
+    changedDependencies.add(name);
+    if (batchDepth > 0) {
+      isStale = true;
+      return;
+    }
+    const prevComputed = computedValues;
+    const prevExposed = exposedState;
+    recompute();
+    if (computedKeys.every((key) => Object.is(computedValues[key], prevComputed[key]))) {
+      exposedState = prevExposed;
+      return;
+    }
+    notify();
+  };
+
+  const { history, record, recordGroup } = createHistory(
+    typeof config.history === 'object' ? config.history : {},
+    (patches, inversePatches, direction) =>
+      commitPatches(applyPatches(rawState, patches), patches, inversePatches, { type: direction, name: direction }, []),
+  );
+
+  const subscribePatches = (listener: PatchListener): (() => void) => {
+    patchListeners.add(listener);
+    return () => { patchListeners.delete(listener); };
+  };
+
+  const applyStatePatches = (patches: Patch[]) => {
+    const [nextRaw, applied, inversePatches] = produceWithPatches(rawState, (draft: Draft<S>) => {
+      applyPatches(draft, patches);
+    }) as [S, Patch[], Patch[]];
+    commitPatches(nextRaw, applied, inversePatches, { type: 'applyPatches', name: 'applyPatches' }, [patches]);
+  };
+
+  // Strict mode hands out read-only views that throw on mutation
+  const expose = (state: any) => (config.strict ? readonly(state) : state);
+
+  const getState = (): any => {
+    // Inside a batch, derive computed values lazily so reads are up to date
+    if (isStale && batchDepth > 0) {
+      recompute();
+    }
+    return expose(exposedState);
+  };
 
   function subscribe(listener: () => void): () => void;
   function subscribe<T>(
@@ -203,40 +539,164 @@ export function create<C extends {
     return () => { listeners.delete(internalListener); };
   }
 
-  const setState: SetState<S> = (updater) => {
+  // ─── Action events ──────────────────────────────────────────────────
+  const actionListeners = new Set<ActionListener>();
+
+  const onAction = (listener: ActionListener): (() => void) => {
+    actionListeners.add(listener);
+    return () => { actionListeners.delete(listener); };
+  };
+
+  const emitAction = (event: ActionEvent) => {
+    actionListeners.forEach((listener) => listener(event));
+  };
+
+  /** Run a synchronous action or setState call and report it */
+  const reportCall = (type: 'action' | 'setState', name: string, args: any[], run: () => void) => {
+    if (actionListeners.size === 0) return run();
+    const prevState = getState();
+    const startedAt = performance.now();
+    run();
+    emitAction({ type, name, args, prevState, nextState: getState(), durationMs: performance.now() - startedAt });
+  };
+
+  /** Run an effect call, reporting when it starts and when it settles */
+  const reportEffect = async (name: string, args: any[], run: () => Promise<any>): Promise<any> => {
+    if (actionListeners.size === 0) return run();
+    const prevState = getState();
+    const startedAt = performance.now();
+    emitAction({ type: 'effect', phase: 'start', name, args, prevState, nextState: prevState, durationMs: 0 });
+
+    const end = (outcome: { result?: unknown; error?: Error }) => emitAction({
+      type: 'effect', phase: 'end', name, args, prevState, nextState: getState(),
+      durationMs: performance.now() - startedAt, ...outcome,
+    });
+
+    try {
+      const result = await run();
+      end({ result });
+      return result;
+    } catch (e) {
+      end({ error: e instanceof Error ? e : new Error(String(e)) });
+      throw e;
+    }
+  };
+
+  /**
+   * Build a setState-style updater bound to a commit source, so effect `set`
+   * calls are labelled with the effect name.
+   */
+  const createSetter = (meta: CommitMeta): SetState<S> => (updater) => {
+    let recipe: (draft: Draft<S>) => any;
     if (typeof updater === 'function') {
-      rawState = produce(rawState, updater as (draft: Draft<S>) => void);
+      recipe = updater as (draft: Draft<S>) => void;
     } else if (typeof updater === 'object' && updater !== null) {
-      rawState = { ...rawState, ...updater };
+      recipe = (draft) => { Object.assign(draft as object, updater); };
     } else {
-      rawState = updater as S;
+      recipe = () => updater;
     }
-    recompute();
-    notify();
+    const [nextRaw, patches, inversePatches] = produceWithPatches(rawState, recipe) as [S, Patch[], Patch[]];
+    commitPatches(nextRaw, patches, inversePatches, meta, [updater]);
   };
 
+  const commitSetState = createSetter({ type: 'setState', name: 'setState' });
+  // Writes made by middleware (hydration, other tabs, DevTools time travel)
+  // are not undo steps and are not validated; the patch stream sees them
+  const middlewareSetState = createSetter({ type: 'middleware', name: 'middleware' });
+  const setState: SetState<S> = (updater) =>
+    reportCall('setState', 'setState', [updater], () => commitSetState(updater));
+
   // Bind sync actions
   const actions: any = {};
   if (config.actions) {
     for (const key of Object.keys(config.actions)) {
       const fn = config.actions[key] as Function;
-      actions[key] = (...args: any[]) => {
-        const nextRaw = produce(rawState, (draft: Draft<S>) => {
+      actions[key] = (...args: any[]) => reportCall('action', key, args, () => {
+        const [nextRaw, patches, inversePatches] = produceWithPatches(rawState, (draft: Draft<S>) => {
           fn(draft, ...args);
-        });
-        commitState(nextRaw);
-      };
+        }) as [S, Patch[], Patch[]];
+        commitPatches(nextRaw, patches, inversePatches, { type: 'action', name: key }, args);
+      });
     }
   }
 
+  // ─── Transactions ───────────────────────────────────────────────────
+  const transaction = async <T>(fn: (helpers: any) => Promise<T>): Promise<T> => {
+    const log: TransactionCommit[] = [];
+    const within = (run: () => void) => {
+      const outer = committingTransaction;
+      committingTransaction = log;
+      try {
+        run();
+      } finally {
+        committingTransaction = outer;
+      }
+    };
+
+    const set = createSetter({ type: 'transaction', name: 'transaction' });
+    const boundActions: any = {};
+    for (const key of Object.keys(actions)) {
+      boundActions[key] = (...args: any[]) => within(() => actions[key](...args));
+    }
+
+    openTransactions.add(log);
+    try {
+      const result = await fn({
+        set: (updater: any) => within(() => set(updater)),
+        get: getState,
+        actions: nestNamespaced(boundActions),
+      });
+      if (config.history) recordGroup(log.filter((commit) => commit.own));
+      return result;
+    } catch (e) {
+      const rollback = rollbackState(rawState, log);
+      if (rollback.conflict !== undefined) {
+        console.warn(
+          `[zustand-immer-lite] could not roll back a failed transaction: "${rollback.conflict}" was also changed by another commit. None of its changes were reverted.`,
+        );
+      } else if (rollback.state !== rawState) {
+        const [nextRaw, patches, inversePatches] = diffState(rawState, rollback.state);
+        commitPatches(nextRaw as S, patches, inversePatches, { type: 'rollback', name: 'rollback' }, [e]);
+      }
+      throw e;
+    } finally {
+      openTransactions.delete(log);
+    }
+  };
+
   // Bind async effects
   const effects: any = {};
+  const effectStatus = createEffectStatusStore();
+  const dependencyState = dependencyView(dependsOn);
   if (config.effects) {
     for (const key of Object.keys(config.effects)) {
-      const fn = config.effects[key] as Function;
-      effects[key] = (...args: any[]) => {
-        return fn({ set: setState, get: getState }, ...args);
-      };
+      const entry = config.effects[key] as Function | EffectConfig<S>;
+      const { fn, concurrency, wait } = typeof entry === 'function' ? { fn: entry } as EffectConfig<S> : entry;
+      const set = createSetter({ type: 'effect', name: key });
+      effects[key] = createEffectRunner(concurrency, wait, (signal, args) => {
+        if (destroyed) {
+          warnDestroyed(key);
+          return Promise.resolve();
+        }
+        // `set` calls from a superseded run are ignored
+        const guardedSet: SetState<S> = (updater) => {
+          if (!signal.aborted) set(updater);
+        };
+        return effectStatus.track(key, signal, () =>
+          reportEffect(key, args, () =>
+            runEffectMiddleware(middleware, { name: key, args }, () =>
+              fn({ set: guardedSet, get: getState, signal, deps: dependencyState }, ...args))));
+      });
+    }
+  }
+
+  // Bind parameterized selectors (memoized per argument set)
+  const selectors: any = {};
+  if (config.selectors) {
+    for (const key of Object.keys(config.selectors)) {
+      const select = config.selectors[key] as (state: any, ...args: any[]) => any;
+      const fn = config.strict ? (state: any, ...args: any[]) => readonly(select(state, ...args), key) : select;
+      selectors[key] = createSelector(fn, getState, (listener) => subscribe(listener), trackDeps);
     }
   }
 
@@ -260,43 +720,172 @@ export function create<C extends {
     }
   }
 
+  // ─── Reset ──────────────────────────────────────────────────────────
+  const getInitialState = (): S => config.state;
+
+  /**
+   * Restore all (or some) keys of `config.state`. Computed caches and the
+   * undo history are dropped, since they describe the state being replaced.
+   */
+  const reset = (keys?: (keyof S)[], options: ResetOptions = {}) => {
+    const restoreKeys = keys ?? (Object.keys(config.state) as (keyof S)[]);
+    deps.clear();
+    cachedResults.clear();
+    prevRawState = undefined;
+    history.clear();
+
+    const [nextRaw, patches, inversePatches] = produceWithPatches(rawState, (draft: Draft<S>) => {
+      for (const key of restoreKeys) {
+        (draft as any)[key] = config.state[key as string];
+      }
+    }) as [S, Patch[], Patch[]];
+    commitPatches(nextRaw, patches, inversePatches, { type: 'reset', name: 'reset' }, [keys, options]);
+
+    if (options.clearPersisted) {
+      persistMiddleware?.api.clearStorage();
+    }
+    if (options.queries) {
+      for (const key of Object.keys(queries)) queries[key].clear();
+    }
+    if (options.mutations) {
+      for (const key of Object.keys(mutations)) mutations[key].resetAll();
+    }
+  };
+
+  // ─── Teardown ───────────────────────────────────────────────────────
+  /**
+   * Release everything the store holds: listeners, dependency
+   * subscriptions, query caches and timers, in-flight effect runs (their
+   * signals are aborted) and middleware resources.
+   */
+  const destroy = () => {
+    if (destroyed) return;
+    destroyed = true;
+    pendingStarts.delete(useStore);
+    unsubscribeDependencies();
+    for (const key of Object.keys(effects)) effects[key].cancel();
+    for (const key of Object.keys(queries)) queries[key].destroy();
+    for (const mw of middleware) mw.destroy?.();
+    openTransactions.clear();
+    actionListeners.clear();
+    patchListeners.clear();
+    listeners.clear();
+  };
+
+  const getEffectStatus = (name: PropertyKey) => effectStatus.get(name as string);
+
+  const useEffectStatus = (name: PropertyKey) => {
+    const subscribeStatus = useCallback(
+      (listener: () => void) => effectStatus.subscribe(name as string, listener),
+      [name],
+    );
+    const snap = useCallback(() => effectStatus.get(name as string), [name]);
+    return useSyncExternalStore(subscribeStatus, snap, snap);
+  };
+
+  // ─── Persist control ────────────────────────────────────────────────
+  const persistApi: PersistApi<any> = persistMiddleware?.api ?? {
+    hasHydrated: () => true,
+    onHydrate: () => () => {},
+    onFinishHydration: () => () => {},
+    rehydrate: () => Promise.resolve(),
+    clearStorage: () => {},
+    flush: () => {},
+    pause: () => {},
+    resume: () => {},
+    getOptions: () => ({}),
+    setOptions: () => {},
+  };
+
+  const useHydrated = () => useSyncExternalStore(
+    persistApi.onFinishHydration,
+    persistApi.hasHydrated,
+    persistApi.hasHydrated,
+  );
+
+  // ─── SSR ────────────────────────────────────────────────────────────
+  // State the server rendered, set by hydrate(). React renders it while
+  // hydrating so the markup matches, then switches to getState().
+  let serverState: any;
+
+  const getServerState = () => (serverState === undefined ? getState() : expose(serverState));
+
+  const hydrateState = (state: Record<string, any>) => {
+    rawState = { ...rawState, ...state };
+    recompute();
+    serverState = exposedState;
+    notify();
+  };
+
   // React hook
-  const useStore = ((selector?: (state: any) => any) => {
-    const cache = useRef({ state: undefined as any, result: undefined as any });
+  const useStore = ((selector?: (state: any) => any, equalityFn: (a: any, b: any) => boolean = Object.is) => {
+    // `hasResult` rather than `result !== undefined`, so selectors that
+    // return undefined are cached too
+    const cache = useRef({ state: undefined as any, result: undefined as any, hasResult: false });
+    const serverCache = useRef({ state: undefined as any, result: undefined as any, hasResult: false });
     const selectorRef = useRef(selector);
     selectorRef.current = selector;
+    const equalityRef = useRef(equalityFn);
+    equalityRef.current = equalityFn;
 
-    const getSnapshot = useCallback((): any => {
-      const currentState = getState();
-
-      if (currentState === cache.current.state && cache.current.result !== undefined) {
-        return cache.current.result;
+    const select = (entry: { state: any; result: any; hasResult: boolean }, currentState: any): any => {
+      if (entry.hasResult && currentState === entry.state) {
+        return entry.result;
       }
 
       const nextResult = selectorRef.current
         ? selectorRef.current(currentState)
         : currentState;
 
-      if (cache.current.result !== undefined && Object.is(cache.current.result, nextResult)) {
-        cache.current.state = currentState;
-        return cache.current.result;
+      entry.state = currentState;
+      if (entry.hasResult && equalityRef.current(entry.result, nextResult)) {
+        return entry.result;
       }
 
-      cache.current.state = currentState;
-      cache.current.result = nextResult;
-      return nextResult;
-    }, []);
+      entry.result = expose(nextResult);
+      entry.hasResult = true;
+      return entry.result;
+    };
+
+    const getSnapshot = useCallback(() => select(cache.current, getState()), []);
+    const getServerSnapshot = useCallback(() => select(serverCache.current, getServerState()), []);
 
-    return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
-  }) as UseStore<C['state'], NonNullable<C['actions']>, NonNullable<C['effects']>, NonNullable<C['computed']>, NonNullable<C['queries']>, NonNullable<C['mutations']>>;
+    return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+  }) as StoreFromConfig<C>;
 
-  useStore.actions = actions;
-  useStore.effects = effects;
-  useStore.queries = queries;
-  useStore.mutations = mutations;
+  useStore.actions = nestNamespaced(actions) as any;
+  useStore.effects = nestNamespaced(effects) as any;
+  useStore.getEffectStatus = getEffectStatus as any;
+  useStore.useEffectStatus = useEffectStatus as any;
+  useStore.selectors = selectors;
+  useStore.queries = nestNamespaced(queries) as any;
+  useStore.mutations = nestNamespaced(mutations) as any;
   useStore.getState = getState;
   useStore.setState = setState;
   useStore.subscribe = subscribe;
+  useStore.history = history;
+  useStore.subscribePatches = subscribePatches;
+  useStore.onAction = onAction;
+  useStore.applyPatches = applyStatePatches;
+  useStore.batch = batch;
+  useStore.transaction = transaction as any;
+  useStore.getInitialState = getInitialState;
+  useStore.reset = reset;
+  useStore.destroy = destroy;
+  useStore.persist = persistApi;
+  useStore.useHydrated = useHydrated;
+
+  registerStoreInternals(useStore, { getRawState: () => rawState, hydrateState, queries });
+
+  const start = () => {
+    unsubscribeDependencies = subscribeDependencies(listeners, dependsOn, onDependencyChange);
+    // Catch up with dependency changes made before a deferred start
+    if (deferStart) Object.keys(dependsOn).forEach(onDependencyChange);
+    // Middleware writes are not reported to onAction either
+    for (const mw of middleware) mw.setup?.({ getState, setState: middlewareSetState, subscribe });
+  };
+  if (deferStart) pendingStarts.set(useStore, start);
+  else start();
 
   return useStore;
 }
@@ -0,0 +1,59 @@
+import type { DependencyStore } from './types';
+
+// Stores currently propagating a dependency change, outermost first
+const propagating: Array<{ store: object; name: string }> = [];
+
+/**
+ * Read-only view of the dependency stores' current state. Every property
+ * read is recorded in `reads`, so a computed fn only depends on the stores
+ * it actually looked at.
+ */
+export function dependencyView(
+  dependsOn: Record<string, DependencyStore>,
+  reads?: Set<string>,
+): Record<string, any> {
+  const view: Record<string, any> = {};
+  for (const name of Object.keys(dependsOn)) {
+    Object.defineProperty(view, name, {
+      enumerable: true,
+      get: () => {
+        reads?.add(name);
+        return dependsOn[name].getState();
+      },
+    });
+  }
+  return view;
+}
+
+/**
+ * Subscribe `store` to its dependency stores; `onChange(name)` runs when one
+ * of them changes. A change that comes back around to a store that is still
+ * propagating an earlier one is a dependency cycle: it is dropped with a
+ * warning naming the path instead of recursing forever.
+ */
+export function subscribeDependencies(
+  store: object,
+  dependsOn: Record<string, DependencyStore>,
+  onChange: (name: string) => void,
+): () => void {
+  const unsubscribes = Object.entries(dependsOn).map(([name, dependency]) =>
+    dependency.subscribe(() => {
+      const index = propagating.findIndex((entry) => entry.store === store);
+      if (index !== -1) {
+        const path = [...propagating.slice(index).map((entry) => entry.name), name].join(' → ');
+        console.warn(
+          `[zustand-immer-lite] circular store dependency (${path}). ` +
+          `The change was not propagated again.`,
+        );
+        return;
+      }
+      propagating.push({ store, name });
+      try {
+        onChange(name);
+      } finally {
+        propagating.pop();
+      }
+    }));
+
+  return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+}
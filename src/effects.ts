@@ -0,0 +1,162 @@
+import type { EffectConcurrency, EffectStatus } from './types';
+
+interface Run {
+  controller: AbortController;
+  promise: Promise<any>;
+}
+
+export interface EffectRunner {
+  (...args: any[]): Promise<any>;
+  /** Abort every run in progress and drop calls still waiting to run */
+  cancel: () => void;
+}
+
+interface Waiter {
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Wraps an effect with a concurrency mode:
+ * - `takeEvery` (default): every call runs
+ * - `takeLatest`: a new call aborts the run in progress
+ * - `exhaust`: calls made while a run is in progress get that run's promise
+ * - `debounce`: only the last call within `wait` ms runs
+ * - `throttle`: at most one run per `wait` ms; the last call made during the
+ *   window runs when it ends
+ * Except in `takeEvery` mode, starting a run aborts the previous one.
+ */
+export function createEffectRunner(
+  concurrency: EffectConcurrency = 'takeEvery',
+  wait = 0,
+  run: (signal: AbortSignal, args: any[]) => Promise<any>,
+): EffectRunner {
+  let current: Run | null = null;
+  // Every run in progress (several in `takeEvery` mode)
+  const running = new Set<AbortController>();
+
+  const start = (args: any[]): Promise<any> => {
+    if (concurrency !== 'takeEvery') current?.controller.abort();
+    const controller = new AbortController();
+    const entry: Run = { controller, promise: undefined! };
+    current = entry;
+    running.add(controller);
+    entry.promise = Promise.resolve(run(controller.signal, args)).finally(() => {
+      running.delete(controller);
+      if (current === entry) current = null;
+    });
+    return entry.promise;
+  };
+
+  // Callers delayed by debounce/throttle all receive the result of the run
+  let waiters: Waiter[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let latestArgs: any[] = [];
+
+  const schedule = (args: any[], delay: number, onFire?: () => void): Promise<any> =>
+    new Promise((resolve, reject) => {
+      waiters.push({ resolve, reject });
+      latestArgs = args;
+      if (concurrency === 'debounce' && timer !== null) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      if (timer !== null) return;
+      timer = setTimeout(() => {
+        timer = null;
+        const pending = waiters;
+        waiters = [];
+        onFire?.();
+        start(latestArgs).then(
+          (value) => pending.forEach((w) => w.resolve(value)),
+          (error) => pending.forEach((w) => w.reject(error)),
+        );
+      }, delay);
+    });
+
+  let lastRunAt = -Infinity;
+
+  // Dropped callers receive `undefined`, like a run that returns nothing
+  const cancel = () => {
+    running.forEach((controller) => controller.abort());
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const pending = waiters;
+    waiters = [];
+    pending.forEach((w) => w.resolve(undefined));
+  };
+
+  let call: (...args: any[]) => Promise<any>;
+  switch (concurrency) {
+    case 'exhaust':
+      call = (...args) => current ? current.promise : start(args);
+      break;
+    case 'debounce':
+      call = (...args) => schedule(args, wait);
+      break;
+    case 'throttle':
+      call = (...args) => {
+        const remaining = wait - (Date.now() - lastRunAt);
+        if (remaining <= 0 && timer === null) {
+          lastRunAt = Date.now();
+          return start(args);
+        }
+        return schedule(args, remaining, () => { lastRunAt = Date.now(); });
+      };
+      break;
+    default:
+      call = (...args) => start(args);
+  }
+  return Object.assign(call, { cancel });
+}
+
+const IDLE_STATUS: EffectStatus<any> = { running: false, error: null, lastResult: undefined, callCount: 0 };
+
+/**
+ * Tracks `{ running, error, lastResult, callCount }` per effect name.
+ * Statuses are immutable snapshots, so they can back useSyncExternalStore.
+ * Runs aborted by a newer call do not report their result or error.
+ */
+export function createEffectStatusStore() {
+  const statuses = new Map<string, EffectStatus<any>>();
+  const inflight = new Map<string, number>();
+  const listeners = new Map<string, Set<() => void>>();
+
+  const get = (name: string): EffectStatus<any> => statuses.get(name) ?? IDLE_STATUS;
+
+  const update = (name: string, patch: Partial<EffectStatus<any>>) => {
+    statuses.set(name, { ...get(name), ...patch });
+    listeners.get(name)?.forEach((fn) => fn());
+  };
+
+  const subscribe = (name: string, listener: () => void) => {
+    if (!listeners.has(name)) listeners.set(name, new Set());
+    const set = listeners.get(name)!;
+    set.add(listener);
+    return () => { set.delete(listener); };
+  };
+
+  const track = async (name: string, signal: AbortSignal, run: () => Promise<any>): Promise<any> => {
+    inflight.set(name, (inflight.get(name) ?? 0) + 1);
+    update(name, { running: true, error: null, callCount: get(name).callCount + 1 });
+
+    const settle = (patch: Partial<EffectStatus<any>>) => {
+      const remaining = inflight.get(name)! - 1;
+      inflight.set(name, remaining);
+      update(name, signal.aborted ? { running: remaining > 0 } : { ...patch, running: remaining > 0 });
+    };
+
+    try {
+      const result = await run();
+      settle({ lastResult: result });
+      return result;
+    } catch (e) {
+      settle({ error: e instanceof Error ? e : new Error(String(e)) });
+      throw e;
+    }
+  };
+
+  return { get, subscribe, track };
+}
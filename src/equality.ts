@@ -0,0 +1,69 @@
+import { useRef } from 'react';
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null;
+
+/**
+ * Compare two values one level deep: same keys (or Map/Set entries) with
+ * `Object.is`-equal values.
+ */
+export function shallow<T>(a: T, b: T): boolean {
+  return compare(a, b, Object.is);
+}
+
+/**
+ * Structural equality at every depth, for plain objects, arrays, Maps, Sets
+ * and Dates.
+ */
+export function deep<T>(a: T, b: T): boolean {
+  return compare(a, b, deep);
+}
+
+function compare(a: unknown, b: unknown, equal: (x: unknown, y: unknown) => boolean): boolean {
+  if (Object.is(a, b)) return true;
+  if (!isObject(a) || !isObject(b)) return false;
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  if (a instanceof Date) return a.getTime() === (b as Date).getTime();
+
+  if (a instanceof Map) {
+    const other = b as Map<unknown, unknown>;
+    if (a.size !== other.size) return false;
+    for (const [key, value] of a) {
+      if (!other.has(key) || !equal(value, other.get(key))) return false;
+    }
+    return true;
+  }
+
+  if (a instanceof Set) {
+    const other = b as Set<unknown>;
+    if (a.size !== other.size) return false;
+    // members missing by identity are matched with `equal`, each one once
+    const unmatched = [...other].filter((value) => !a.has(value));
+    for (const value of a) {
+      if (other.has(value)) continue;
+      const index = unmatched.findIndex((candidate) => equal(value, candidate));
+      if (index === -1) return false;
+      unmatched.splice(index, 1);
+    }
+    return true;
+  }
+
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && equal(a[key], b[key]));
+}
+
+/**
+ * Wrap a selector so it returns its previous result while the new one is
+ * shallow-equal, e.g. `useStore(useShallow((s) => ({ a: s.a, b: s.b })))`.
+ */
+export function useShallow<S, U>(selector: (state: S) => U): (state: S) => U {
+  const prev = useRef<{ value: U } | null>(null);
+  return (state) => {
+    const next = selector(state);
+    if (prev.current && shallow(prev.current.value, next)) return prev.current.value;
+    prev.current = { value: next };
+    return next;
+  };
+}
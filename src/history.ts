@@ -0,0 +1,96 @@
+import type { Patch } from 'immer';
+import type { HistoryConfig, StoreHistory } from './types';
+
+interface HistoryEntry {
+  patches: Patch[];
+  inversePatches: Patch[];
+}
+
+const DEFAULT_HISTORY_LIMIT = 100;
+
+/**
+ * Creates a patch-based undo/redo stack.
+ * Each entry stores the Immer patches of one commit (or one group of commits)
+ * instead of a full state snapshot. `apply` is called with the patches to
+ * replay (and their inverse) when undoing or redoing, and returns whether
+ * they were committed; an entry only moves between the stacks if they were.
+ */
+export function createHistory(
+  config: HistoryConfig,
+  apply: (patches: Patch[], inversePatches: Patch[], direction: 'undo' | 'redo') => boolean,
+) {
+  const limit = config.limit ?? DEFAULT_HISTORY_LIMIT;
+
+  let past: HistoryEntry[] = [];
+  let future: HistoryEntry[] = [];
+  // Commits recorded while inside `group()` are collected here
+  let pending: HistoryEntry[] | null = null;
+  let groupDepth = 0;
+
+  const push = (entry: HistoryEntry) => {
+    past.push(entry);
+    if (past.length > limit) past.splice(0, past.length - limit);
+    future = [];
+  };
+
+  const record = (patches: Patch[], inversePatches: Patch[]) => {
+    if (patches.length === 0) return;
+    const entry = { patches, inversePatches };
+    if (pending) {
+      pending.push(entry);
+    } else {
+      push(entry);
+    }
+  };
+
+  /** Record several commits as one entry */
+  const recordGroup = (entries: HistoryEntry[]) => {
+    if (entries.length === 0) return;
+    // Inverse patches must be replayed last-commit-first
+    record(
+      entries.flatMap((e) => e.patches),
+      entries.slice().reverse().flatMap((e) => e.inversePatches),
+    );
+  };
+
+  const history: StoreHistory = {
+    undo() {
+      const entry = past[past.length - 1];
+      if (!entry || !apply(entry.inversePatches, entry.patches, 'undo')) return;
+      past.splice(past.lastIndexOf(entry), 1);
+      future.push(entry);
+    },
+    redo() {
+      const entry = future[future.length - 1];
+      if (!entry || !apply(entry.patches, entry.inversePatches, 'redo')) return;
+      future.splice(future.lastIndexOf(entry), 1);
+      past.push(entry);
+    },
+    get canUndo() {
+      return past.length > 0;
+    },
+    get canRedo() {
+      return future.length > 0;
+    },
+    clear() {
+      past = [];
+      future = [];
+    },
+    group(fn) {
+      if (groupDepth === 0) pending = [];
+      groupDepth++;
+      try {
+        fn();
+      } finally {
+        groupDepth--;
+        if (groupDepth === 0) {
+          const entries = pending!;
+          pending = null;
+          recordGroup(entries);
+        }
+      }
+    },
+  };
+
+  return { history, record, recordGroup };
+}
@@ -2,13 +2,26 @@ export { create } from './create';
 export { createQueryHook } from './query';
 export { createMutationHook } from './mutation';
 export { createInfiniteQueryHook } from './infinite-query';
+export { createSlice, parentDraft } from './slice';
+export { createStoreContext } from './context';
+export { dehydrate, hydrate } from './ssr';
+export { shallow, deep, useShallow } from './equality';
+export { fromSchema } from './middleware/validate';
 export type {
-  SetState, EffectHelpers, UseStore,
+  SetState, EffectHelpers, EffectConfig, EffectConcurrency, EffectStatus, UseStore, AsyncComputedValue, SelectorHook, InferSelectors,
   QueryConfig, QueryResult, QueryHookMethods, QueryHook,
-  MutationConfig, MutationResult, InferMutations,
+  MutationConfig, MutationResult, MutationHookMethods, MutationHook, InferMutations,
   InfiniteData, InfiniteQueryConfig, InfiniteQueryResult, InfiniteQueryHookMethods, InfiniteQueryHook,
-  StateStorage, PersistConfig, SubscribeWithSelector,
+  StateStorage, PersistConfig, PersistApi, PersistWriteStrategy, SubscribeWithSelector,
+  HistoryConfig, StoreHistory, CommitMeta, PatchListener, ActionEvent, ActionListener, TransactionHelpers,
+  StoreMiddleware, CommitContext, EffectContext, StoreApi, DevtoolsConfig, ResetOptions,
+  SliceConfig, SliceEffectHelpers, DependencyStore, InferDependencies,
+  DehydratedStore, DehydratedQueryCache, DehydratedQueryEntry, DehydratedError,
+  ValidationIssue, ValidationResult, InvalidStateEvent,
 } from './types';
+export type { ComputedTracking } from './tracking';
+export type { StoreProviderProps } from './context';
+export type { SafeParseSchema } from './middleware/validate';
 
 /** No-op identity. Immer is already built into zustand-immer-lite. */
 export const immer = <T>(config: T): T => config;
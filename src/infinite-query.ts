@@ -1,5 +1,6 @@
 import { useSyncExternalStore, useEffect, useRef, useCallback, useMemo } from 'react';
 import type { InfiniteQueryConfig, InfiniteQueryResult, InfiniteData, InfiniteQueryHook } from './types';
+import { dehydrateCache, hydrateCache } from './ssr';
 
 interface InfiniteCacheEntry<T> {
   data: InfiniteData<T> | undefined;
@@ -20,6 +21,9 @@ export function createInfiniteQueryHook<T>(config: InfiniteQueryConfig<T>) {
   const snapshotCache = new Map<string, { entry: InfiniteCacheEntry<T>; snapshot: InfiniteCacheEntry<T> }>();
   const inflightId = new Map<string, number>();
   const accessOrder: string[] = [];
+  // refetchInterval timers of mounted hooks
+  const intervals = new Set<ReturnType<typeof setInterval>>();
+  let destroyed = false;
   let nextRequestId = 0;
 
   const touchKey = (key: string) => {
@@ -72,6 +76,8 @@ export function createInfiniteQueryHook<T>(config: InfiniteQueryConfig<T>) {
   };
 
   const setEntry = (key: string, entry: InfiniteCacheEntry<T>) => {
+    // Requests that settle after destroy() are dropped
+    if (destroyed) return;
     cache.set(key, entry);
     touchKey(key);
     const cached = snapshotCache.get(key);
@@ -103,6 +109,7 @@ export function createInfiniteQueryHook<T>(config: InfiniteQueryConfig<T>) {
 
   // Fetch first page (initial load or refetch)
   const fetchInitial = async (key: string, args: any[], force = false) => {
+    if (destroyed) return;
     const entry = getEntry(key);
     const staleTime = config.staleTime ?? 0;
 
@@ -134,6 +141,7 @@ export function createInfiniteQueryHook<T>(config: InfiniteQueryConfig<T>) {
 
   // Fetch next page
   const fetchNext = async (key: string, args: any[]) => {
+    if (destroyed) return;
     const entry = getEntry(key);
     if (!entry.data || entry.isFetchingNextPage) return;
 
@@ -169,6 +177,7 @@ export function createInfiniteQueryHook<T>(config: InfiniteQueryConfig<T>) {
 
   // Fetch previous page
   const fetchPrevious = async (key: string, args: any[]) => {
+    if (destroyed) return;
     const entry = getEntry(key);
     if (!entry.data || entry.isFetchingPreviousPage || !config.getPreviousPageParam) return;
 
@@ -238,11 +247,15 @@ export function createInfiniteQueryHook<T>(config: InfiniteQueryConfig<T>) {
 
     // refetchInterval
     useEffect(() => {
-      if (!config.refetchInterval) return;
+      if (!config.refetchInterval || destroyed) return;
       const id = setInterval(() => {
         fetchInitial(key, argsRef.current, true);
       }, config.refetchInterval);
-      return () => clearInterval(id);
+      intervals.add(id);
+      return () => {
+        clearInterval(id);
+        intervals.delete(id);
+      };
     }, [key]);
 
     const hasNextPage = useMemo(() => {
@@ -278,7 +291,7 @@ export function createInfiniteQueryHook<T>(config: InfiniteQueryConfig<T>) {
 
   hook.prefetch = (...args: any[]) => {
     const key = JSON.stringify(args);
-    fetchInitial(key, args, false);
+    return fetchInitial(key, args, false);
   };
 
   hook.invalidate = (...args: any[]) => {
@@ -309,5 +322,31 @@ export function createInfiniteQueryHook<T>(config: InfiniteQueryConfig<T>) {
     return cache.get(key)?.data;
   };
 
+  hook.clear = () => {
+    const keys = [...cache.keys()];
+    cache.clear();
+    snapshotCache.clear();
+    inflightId.clear();
+    accessOrder.length = 0;
+    keys.forEach(notify);
+  };
+
+  hook.destroy = () => {
+    if (destroyed) return;
+    intervals.forEach(clearInterval);
+    intervals.clear();
+    hook.clear();
+    destroyed = true;
+    listeners.clear();
+  };
+
+  hook.dehydrate = () => dehydrateCache(cache);
+
+  hook.hydrate = (entries) => {
+    hydrateCache(cache, entries, (key, entry) => {
+      setEntry(key, { ...getEntry(key), ...entry, loading: false });
+    });
+  };
+
   return hook;
 }
@@ -0,0 +1,98 @@
+import type { DevtoolsConfig, StoreApi, StoreMiddleware } from '../types';
+
+interface DevtoolsMessage {
+  type: string;
+  state?: string;
+  payload?: any;
+}
+
+interface DevtoolsConnection {
+  init: (state: unknown) => void;
+  send: (action: unknown, state: unknown) => void;
+  subscribe: (listener: (message: DevtoolsMessage) => void) => (() => void) | void;
+}
+
+interface DevtoolsExtension {
+  connect: (options: { name?: string }) => DevtoolsConnection;
+}
+
+const getExtension = (): DevtoolsExtension | undefined =>
+  typeof window !== 'undefined'
+    ? (window as unknown as { __REDUX_DEVTOOLS_EXTENSION__?: DevtoolsExtension }).__REDUX_DEVTOOLS_EXTENSION__
+    : undefined;
+
+/**
+ * Redux DevTools as a store middleware: sends every commit labelled with the
+ * action or effect name, and commits the state carried by time-travel messages.
+ * Does nothing when the extension is not installed.
+ */
+export function devtools<S extends Record<string, any>>(config: DevtoolsConfig): StoreMiddleware<S> {
+  const extension = getExtension();
+  if (!extension) return {};
+
+  let connection: DevtoolsConnection | undefined;
+  let api: StoreApi<S> | undefined;
+  // Raw state keys — computed values shown in DevTools must not be committed
+  let rawKeys: string[] = [];
+  // Set while committing a state received from DevTools so it is not sent back
+  let isTraveling = false;
+  let unsubscribe: (() => void) | void;
+
+  const travelTo = (state: Record<string, any>) => {
+    const next: Record<string, any> = {};
+    for (const key of rawKeys) next[key] = state[key];
+    isTraveling = true;
+    try {
+      api!.setState(next as Partial<S>);
+    } finally {
+      isTraveling = false;
+    }
+  };
+
+  const onMessage = (message: DevtoolsMessage) => {
+    if (message.type !== 'DISPATCH' || !message.payload) return;
+    try {
+      switch (message.payload.type) {
+        case 'JUMP_TO_STATE':
+        case 'JUMP_TO_ACTION':
+          if (message.state) travelTo(JSON.parse(message.state));
+          break;
+        case 'IMPORT_STATE': {
+          const lifted = message.payload.nextLiftedState;
+          const computedStates = lifted?.computedStates;
+          const last = computedStates?.[computedStates.length - 1]?.state;
+          if (last) travelTo(last);
+          connection!.send(null, lifted);
+          break;
+        }
+      }
+    } catch (e) {
+      console.warn('[zustand-immer-lite] could not apply DevTools message:', e);
+    }
+  };
+
+  return {
+    init: (state) => {
+      rawKeys = Object.keys(state);
+      return state;
+    },
+    setup: (storeApi) => {
+      api = storeApi;
+      connection = extension.connect({ name: config.name });
+      connection.init(storeApi.getState());
+      unsubscribe = connection.subscribe(onMessage);
+    },
+    afterCommit: (ctx) => {
+      rawKeys = Object.keys(ctx.nextState);
+      if (isTraveling || !connection) return;
+      const action = ctx.type === 'action'
+        ? { type: ctx.name, args: ctx.args }
+        : { type: ctx.name };
+      connection.send(action, api!.getState());
+    },
+    destroy: () => {
+      unsubscribe?.();
+      connection = undefined;
+    },
+  };
+}
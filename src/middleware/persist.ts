@@ -1,10 +1,13 @@
-import type { StateStorage, PersistConfig } from '../types';
+import type { StateStorage, PersistConfig, PersistApi, PersistWriteStrategy, StoreMiddleware } from '../types';
+import type { StateCheck } from './validate';
 
 interface StoredState {
   state: any;
   version: number;
 }
 
+type MaybePromise<T> = T | Promise<T>;
+
 const noopStorage: StateStorage = {
   getItem: () => null,
   setItem: () => {},
@@ -16,50 +19,390 @@ const getDefaultStorage = (): StateStorage =>
     ? window.localStorage
     : noopStorage;
 
-export function hydrateState<S extends Record<string, any>>(
-  currentState: S,
+const isPromiseLike = (value: unknown): value is PromiseLike<any> =>
+  typeof (value as PromiseLike<any> | null)?.then === 'function';
+
+/** Continue with `value` synchronously, or once it resolves */
+const then = <T, R>(value: MaybePromise<T>, fn: (value: T) => MaybePromise<R>): MaybePromise<R> =>
+  (isPromiseLike(value) ? Promise.resolve(value).then(fn) : fn(value as T));
+
+// Failed async writes are dropped like failed sync ones
+const ignoreRejection = (result: unknown) => {
+  if (isPromiseLike(result)) result.then(undefined, () => {});
+};
+
+/**
+ * Parse and migrate a serialized entry. Gives `undefined` when there is
+ * nothing usable: no entry, bad JSON, a failed migration, or another
+ * version without `migrate`.
+ */
+export function readEntry<S extends Record<string, any>>(
+  raw: string | null,
   config: PersistConfig<S>,
-): S {
-  const storage = config.storage ?? getDefaultStorage();
+): MaybePromise<Partial<S> | undefined> {
   const version = config.version ?? 0;
-  const merge = config.merge ?? ((persisted, current) => ({ ...current, ...persisted }));
-
   try {
-    const raw = storage.getItem(config.name);
-    if (raw === null) return currentState;
+    if (raw === null) return undefined;
 
     const stored: StoredState = JSON.parse(raw);
-    let persistedState = stored.state;
+    if (stored.version === version) return stored.state;
+    if (!config.migrate) return undefined;
 
-    if (stored.version !== version) {
-      if (config.migrate) {
-        persistedState = config.migrate(persistedState, stored.version);
-      } else {
-        return currentState;
-      }
-    }
+    const migrated = config.migrate(stored.state, stored.version);
+    return isPromiseLike(migrated)
+      ? Promise.resolve(migrated).catch(() => undefined)
+      : migrated;
+  } catch {
+    return undefined;
+  }
+}
 
-    return merge(persistedState, currentState);
+/** Read and migrate the stored entry; async when the storage or `migrate` is */
+export function readPersistedState<S extends Record<string, any>>(
+  config: PersistConfig<S>,
+): MaybePromise<Partial<S> | undefined> {
+  const storage = config.storage ?? getDefaultStorage();
+  try {
+    const raw = storage.getItem(config.name);
+    return isPromiseLike(raw)
+      ? Promise.resolve(raw).then((value) => readEntry(value, config), () => undefined)
+      : readEntry(raw, config);
   } catch {
-    return currentState;
+    return undefined;
   }
 }
 
+const mergeState = <S extends Record<string, any>>(persisted: Partial<S>, current: S, config: PersistConfig<S>): S =>
+  (config.merge ?? ((p, c) => ({ ...c, ...p })))(persisted, current);
+
+/** Write the state to storage. Returns the serialized entry, if it could be built. */
 export function persistState<S extends Record<string, any>>(
   state: S,
   config: PersistConfig<S>,
-): void {
+): string | undefined {
   const storage = config.storage ?? getDefaultStorage();
   const version = config.version ?? 0;
   const partialize = config.partialize ?? ((s: S) => s);
 
+  let raw: string;
   try {
     const toPersist: StoredState = {
       state: partialize(state),
       version,
     };
-    storage.setItem(config.name, JSON.stringify(toPersist));
+    raw = JSON.stringify(toPersist);
+  } catch {
+    return undefined;
+  }
+  try {
+    ignoreRejection(storage.setItem(config.name, raw));
   } catch {
     // Storage full or unavailable — silently fail
   }
+  return raw;
+}
+
+export function clearPersistedState<S extends Record<string, any>>(config: PersistConfig<S>): void {
+  const storage = config.storage ?? getDefaultStorage();
+  try {
+    ignoreRejection(storage.removeItem(config.name));
+  } catch {
+    // Storage unavailable — nothing to clear
+  }
+}
+
+// ─── Cross-tab sync ───────────────────────────────────────────────
+
+interface SyncChannel {
+  /** Received entries are already in this tab's storage */
+  sharesStorage: boolean;
+  /** Tell the other tabs about an entry this tab wrote */
+  publish: (raw: string) => void;
+  close: () => void;
+}
+
+const BROADCAST_PREFIX = 'zustand-immer-lite:';
+
+/**
+ * Deliver entries written by other tabs to `receive`: through `storage`
+ * events (they only fire in the tabs that did not write, and only for
+ * localStorage), or through a BroadcastChannel named after the store.
+ */
+function openSyncChannel(
+  config: PersistConfig<any>,
+  storage: StateStorage,
+  receive: (raw: string) => void,
+): SyncChannel | undefined {
+  if (typeof window === 'undefined') return undefined;
+  const mode = config.sync === true
+    ? (storage === window.localStorage ? 'storage' : 'broadcast')
+    : config.sync;
+
+  if (mode === 'storage') {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== config.name || event.newValue === null) return;
+      if (event.storageArea && event.storageArea !== storage) return;
+      receive(event.newValue);
+    };
+    window.addEventListener('storage', onStorage);
+    return {
+      sharesStorage: true,
+      publish: () => {},
+      close: () => window.removeEventListener('storage', onStorage),
+    };
+  }
+
+  if (mode === 'broadcast' && typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(BROADCAST_PREFIX + config.name);
+    channel.onmessage = (event: MessageEvent) => {
+      if (typeof event.data === 'string') receive(event.data);
+    };
+    // The storage may be per tab (sessionStorage), so received entries are written too
+    return {
+      sharesStorage: false,
+      publish: (raw) => channel.postMessage(raw),
+      close: () => channel.close(),
+    };
+  }
+
+  return undefined;
+}
+
+// ─── Write scheduling ─────────────────────────────────────────────
+
+/** Run `write` once the strategy allows; returns a cancel function */
+function scheduleWrite(strategy: Exclude<PersistWriteStrategy, 'immediate'>, write: () => void): () => void {
+  if (strategy === 'idle' && typeof requestIdleCallback === 'function') {
+    const handle = requestIdleCallback(write);
+    return () => cancelIdleCallback(handle);
+  }
+  const timer = setTimeout(write, strategy === 'idle' ? 0 : strategy.debounceMs);
+  return () => clearTimeout(timer);
+}
+
+// Registered only while a write is pending, so idle pages keep the bfcache
+const UNLOAD_EVENTS = ['pagehide', 'beforeunload'] as const;
+
+// ─── Middleware ───────────────────────────────────────────────────
+
+export interface PersistMiddleware<S> extends StoreMiddleware<S> {
+  /** Hydration status and control, exposed as `useStore.persist` */
+  api: PersistApi<S>;
+}
+
+/**
+ * Persist as a store middleware: hydrates the initial state from storage and
+ * writes the raw state back after every commit. With `check`, a hydrated
+ * state that fails validation is dropped in favour of the initial state.
+ *
+ * Sync storage hydrates before the first render. With async storage or an
+ * async `migrate`, the store starts from the initial state and the stored
+ * state is merged in and committed once read; until then nothing is
+ * written, so early commits cannot clobber the stored entry.
+ *
+ * With `sync`, entries written by other tabs are merged in like a hydration
+ * (and validated like one) and committed without being written or
+ * published again. Like every middleware commit, they are not undo steps.
+ *
+ * With a deferred `writeStrategy`, commits only mark a write as pending;
+ * it serializes the state as of when it runs. A pending write is written
+ * before the page unloads.
+ *
+ * `api` controls it at runtime. Options changed through `setOptions` apply
+ * to every later read and write, and reopen the sync channel.
+ */
+export function persist<S extends Record<string, any>>(config: PersistConfig<S>, check?: StateCheck<S>): PersistMiddleware<S> {
+  let options = { ...config };
+  let channel: SyncChannel | undefined;
+  let commit: ((state: S) => void) | undefined;
+  let getState: (() => S) | undefined;
+  // Raw state as of the last commit; getState() would add computed values
+  let rawState: S;
+  // Set while committing an entry received from another tab
+  let isReceiving = false;
+  let isDestroyed = false;
+  let isPaused = false;
+
+  let hasHydrated = false;
+  // Read started in init() that setup() finishes once the store exists
+  let pendingRead: Promise<Partial<S> | undefined> | undefined;
+  // Only the latest hydration is applied when rehydrate() overlaps another
+  let hydration = 0;
+  // A commit was made (and not written) while hydrating
+  let skippedWrite = false;
+  // Cancels the scheduled write of a deferred writeStrategy
+  let cancelWrite: (() => void) | undefined;
+  const hydrateListeners = new Set<(state: S) => void>();
+  const finishListeners = new Set<(state: S) => void>();
+
+  const accept = (state: S) => check?.(state, { type: 'hydrate', name: options.name }) ?? true;
+
+  const write = (state: S) => {
+    if (isPaused) return;
+    if (isReceiving && channel?.sharesStorage) return;
+    const raw = persistState(state, options);
+    if (raw !== undefined && !isReceiving) channel?.publish(raw);
+  };
+
+  /** Drop the scheduled write; true if there was one */
+  const cancelPending = () => {
+    if (!cancelWrite) return false;
+    cancelWrite();
+    cancelWrite = undefined;
+    if (typeof window !== 'undefined') {
+      UNLOAD_EVENTS.forEach((type) => window.removeEventListener(type, writePending));
+    }
+    return true;
+  };
+
+  const writePending = () => {
+    if (cancelPending()) write(rawState);
+  };
+
+  const scheduleWriteFor = (strategy: PersistWriteStrategy) => {
+    if (strategy === 'immediate') {
+      write(rawState);
+      return;
+    }
+    // An idle write is already waiting; a debounced one starts over
+    if (cancelWrite && strategy === 'idle') return;
+    cancelPending();
+    cancelWrite = scheduleWrite(strategy, writePending);
+    if (typeof window !== 'undefined') {
+      UNLOAD_EVENTS.forEach((type) => window.addEventListener(type, writePending));
+    }
+  };
+
+  const apply = (persisted: Partial<S> | undefined, source: 'hydrate' | 'sync') => {
+    if (isDestroyed || persisted === undefined) return;
+    const next = mergeState(persisted, rawState, options);
+    // Middleware commits skip validation, so received states are checked here
+    if (!accept(next)) return;
+    isReceiving = source === 'sync';
+    try {
+      commit!(next);
+    } finally {
+      isReceiving = false;
+    }
+  };
+
+  const finishHydration = () => {
+    hasHydrated = true;
+    if (skippedWrite) {
+      skippedWrite = false;
+      write(rawState);
+    }
+    const state = getState!();
+    finishListeners.forEach((listener) => listener(state));
+    options.onRehydrationFinished?.(state);
+  };
+
+  /** Fire onHydrate, then apply `persisted` (sync or not) and finish */
+  const hydrate = (persisted: MaybePromise<Partial<S> | undefined>): Promise<void> => {
+    const id = ++hydration;
+    hasHydrated = false;
+    // A write still pending would overwrite the entry being read
+    if (cancelPending()) skippedWrite = true;
+    const state = getState!();
+    hydrateListeners.forEach((listener) => listener(state));
+    return Promise.resolve(persisted).then((value) => {
+      if (isDestroyed || id !== hydration) return;
+      apply(value, 'hydrate');
+      finishHydration();
+    });
+  };
+
+  const openChannel = () => {
+    channel?.close();
+    channel = undefined;
+    if (!options.sync || isDestroyed) return;
+    const storage = options.storage ?? getDefaultStorage();
+    channel = openSyncChannel(options, storage, (raw) => {
+      then(readEntry(raw, options), (persisted) => apply(persisted, 'sync'));
+    });
+  };
+
+  const api: PersistApi<S> = {
+    hasHydrated: () => hasHydrated,
+    onHydrate: (listener) => {
+      hydrateListeners.add(listener);
+      return () => { hydrateListeners.delete(listener); };
+    },
+    onFinishHydration: (listener) => {
+      finishListeners.add(listener);
+      return () => { finishListeners.delete(listener); };
+    },
+    rehydrate: () => {
+      if (isDestroyed || !getState) return Promise.resolve();
+      return hydrate(readPersistedState(options));
+    },
+    clearStorage: () => {
+      // A pending write would put the entry back
+      cancelPending();
+      clearPersistedState(options);
+    },
+    flush: () => {
+      if (!hasHydrated || isDestroyed) return;
+      cancelPending();
+      write(rawState);
+    },
+    pause: () => {
+      writePending();
+      isPaused = true;
+    },
+    resume: () => { isPaused = false; },
+    getOptions: () => ({ ...options }),
+    setOptions: (next) => {
+      // Written with the options it was scheduled under
+      if ('writeStrategy' in next || 'name' in next || 'storage' in next) writePending();
+      const reopen = ['name', 'storage', 'sync'].some((key) => key in next);
+      options = { ...options, ...next };
+      if (reopen && getState) openChannel();
+    },
+  };
+
+  return {
+    api,
+    init: (state) => {
+      rawState = state;
+      const persisted = readPersistedState(options);
+      if (isPromiseLike(persisted)) {
+        pendingRead = persisted;
+        return state;
+      }
+      hasHydrated = true;
+      if (persisted === undefined) return state;
+      const hydrated = mergeState(persisted, state, options);
+      if (accept(hydrated)) rawState = hydrated;
+      return rawState;
+    },
+    setup: (storeApi) => {
+      commit = storeApi.setState as (state: S) => void;
+      getState = storeApi.getState;
+      if (pendingRead) {
+        hydrate(pendingRead);
+        pendingRead = undefined;
+      } else {
+        options.onRehydrationFinished?.(storeApi.getState());
+      }
+      openChannel();
+    },
+    afterCommit: (ctx) => {
+      rawState = ctx.nextState;
+      // Written (with the hydrated entry merged in) once hydration finishes
+      if (!hasHydrated) {
+        skippedWrite = true;
+        return;
+      }
+      // Entries from other tabs are written (or skipped) right away, so they are never published
+      if (isReceiving) write(ctx.nextState);
+      else scheduleWriteFor(options.writeStrategy ?? 'immediate');
+    },
+    destroy: () => {
+      writePending();
+      isDestroyed = true;
+      channel?.close();
+      channel = undefined;
+    },
+  };
 }
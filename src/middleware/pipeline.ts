@@ -0,0 +1,45 @@
+import type { StoreMiddleware, CommitContext, EffectContext } from '../types';
+
+/**
+ * Run a commit through every middleware's `onCommit`, outermost first.
+ * `commit` is only reached when each middleware calls `next`; a middleware
+ * may pass a replacement state to `next`.
+ */
+export function runCommitMiddleware<S>(
+  middleware: StoreMiddleware<S>[],
+  ctx: CommitContext<S>,
+  commit: (state: S) => void,
+): void {
+  const dispatch = (index: number, state: S) => {
+    if (index === middleware.length) {
+      commit(state);
+      return;
+    }
+    const onCommit = middleware[index].onCommit;
+    if (!onCommit) {
+      dispatch(index + 1, state);
+      return;
+    }
+    onCommit({ ...ctx, nextState: state }, (override) => {
+      dispatch(index + 1, override === undefined ? state : override);
+    });
+  };
+  dispatch(0, ctx.nextState);
+}
+
+/**
+ * Run an effect call through every middleware's `onEffect`, outermost first.
+ */
+export function runEffectMiddleware<S>(
+  middleware: StoreMiddleware<S>[],
+  ctx: EffectContext,
+  run: () => Promise<any>,
+): Promise<any> {
+  const dispatch = (index: number): Promise<any> => {
+    if (index === middleware.length) return run();
+    const onEffect = middleware[index].onEffect;
+    if (!onEffect) return dispatch(index + 1);
+    return onEffect(ctx, () => dispatch(index + 1));
+  };
+  return dispatch(0);
+}
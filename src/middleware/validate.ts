@@ -0,0 +1,76 @@
+import type { CommitMeta, InvalidStateEvent, StoreMiddleware, ValidationIssue, ValidationResult } from '../types';
+
+export interface ValidationConfig<S> {
+  validate: (state: S) => ValidationResult;
+  onInvalid?: (event: InvalidStateEvent<S>) => void;
+  /** Reject invalid states (default), or only report them */
+  rejectInvalid?: boolean;
+}
+
+export type StateCheck<S> = (state: S, source: { type: InvalidStateEvent<S>['type']; name: string }) => boolean;
+
+// Commits that bring in new state; undo/redo, rollbacks and resets restore
+// states that were already accepted
+const VALIDATED_COMMITS = new Set<CommitMeta['type']>(['action', 'effect', 'setState', 'transaction', 'applyPatches']);
+
+/**
+ * The adapter a schema library needs to fit `fromSchema`: a zod-style
+ * `safeParse`. Wrap other libraries in an object with this method.
+ */
+export interface SafeParseSchema {
+  safeParse: (value: unknown) =>
+    | { success: true }
+    | { success: false; error: { issues: Array<{ path: PropertyKey[]; message: string }> } };
+}
+
+/** Turn a schema into a `validate` function, e.g. `validate: fromSchema(StateSchema)` */
+export function fromSchema<S>(schema: SafeParseSchema): (state: S) => ValidationResult {
+  return (state) => {
+    const result = schema.safeParse(state);
+    if (result.success) return true;
+    return result.error.issues.map(({ path, message }) => ({ path, message }));
+  };
+}
+
+const formatIssues = (issues: ValidationIssue[]) =>
+  issues.map(({ path, message }) => (path.length > 0 ? `${path.map(String).join('.')}: ${message}` : message)).join('; ');
+
+/**
+ * Check states against `validate`. Returns whether the state may be used;
+ * invalid states are reported to `onInvalid`, or warned about without one.
+ * A validator that throws counts as a failed validation.
+ */
+export function createStateCheck<S>(config: ValidationConfig<S>): StateCheck<S> {
+  const reject = config.rejectInvalid ?? true;
+
+  return (state, source) => {
+    let result: ValidationResult;
+    try {
+      result = config.validate(state);
+    } catch (e) {
+      result = [{ path: [], message: e instanceof Error ? e.message : String(e) }];
+    }
+    if (result === true || result.length === 0) return true;
+
+    if (config.onInvalid) {
+      config.onInvalid({ ...source, issues: result, state, rejected: reject });
+    } else {
+      console.warn(
+        `[zustand-immer-lite] ${reject ? 'rejected' : 'committed'} invalid state from ${source.type} "${source.name}": ${formatIssues(result)}`,
+      );
+    }
+    return !reject;
+  };
+}
+
+/**
+ * Validation as a store middleware: vetoes commits whose next state fails
+ * `validate`. It runs after user middleware, so it sees the final state.
+ */
+export function validation<S>(check: StateCheck<S>): StoreMiddleware<S> {
+  return {
+    onCommit: (ctx, next) => {
+      if (!VALIDATED_COMMITS.has(ctx.type) || check(ctx.nextState, { type: ctx.type, name: ctx.name })) next();
+    },
+  };
+}
@@ -1,8 +1,11 @@
-import { useSyncExternalStore, useCallback, useMemo, useRef } from 'react';
-import type { MutationConfig, MutationResult } from './types';
+import { useSyncExternalStore, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { MutationConfig, MutationResult, MutationHook } from './types';
 
 export function createMutationHook<T>(config: MutationConfig<T>) {
-  return (): MutationResult<T> => {
+  // reset() of every mounted instance, so resetAll() works outside React
+  const instances = new Set<() => void>();
+
+  const hook = ((): MutationResult<T> => {
     const stateRef = useRef({
       data: undefined as T | undefined,
       loading: false,
@@ -55,6 +58,11 @@ export function createMutationHook<T>(config: MutationConfig<T>) {
       notify();
     }, [notify]);
 
+    useEffect(() => {
+      instances.add(reset);
+      return () => { instances.delete(reset); };
+    }, [reset]);
+
     return useMemo(
       () => ({
         mutate,
@@ -66,5 +74,11 @@ export function createMutationHook<T>(config: MutationConfig<T>) {
       }),
       [state, mutate, mutateAsync, reset],
     );
+  }) as MutationHook<T>;
+
+  hook.resetAll = () => {
+    instances.forEach((reset) => reset());
   };
+
+  return hook;
 }
@@ -1,5 +1,6 @@
 import { useSyncExternalStore, useEffect, useRef, useCallback, useMemo } from 'react';
 import type { QueryConfig, QueryResult, QueryHook } from './types';
+import { dehydrateCache, hydrateCache } from './ssr';
 
 interface CacheEntry<T> {
   data: T | undefined;
@@ -25,6 +26,9 @@ export function createQueryHook<T>(config: QueryConfig<T>) {
   const inflightId = new Map<string, number>();
   // Track insertion order for LRU eviction
   const accessOrder: string[] = [];
+  // refetchInterval timers of mounted hooks
+  const intervals = new Set<ReturnType<typeof setInterval>>();
+  let destroyed = false;
   let nextRequestId = 0;
 
   const touchKey = (key: string) => {
@@ -80,6 +84,8 @@ export function createQueryHook<T>(config: QueryConfig<T>) {
   };
 
   const setEntry = (key: string, entry: CacheEntry<T>) => {
+    // Requests that settle after destroy() are dropped
+    if (destroyed) return;
     cache.set(key, entry);
     touchKey(key);
     const cached = snapshotCache.get(key);
@@ -103,6 +109,7 @@ export function createQueryHook<T>(config: QueryConfig<T>) {
   };
 
   const fetchData = async (key: string, args: any[], force = false) => {
+    if (destroyed) return;
     const entry = getEntry(key);
     const staleTime = config.staleTime ?? 0;
 
@@ -164,11 +171,15 @@ export function createQueryHook<T>(config: QueryConfig<T>) {
 
     // refetchInterval
     useEffect(() => {
-      if (!config.refetchInterval) return;
+      if (!config.refetchInterval || destroyed) return;
       const id = setInterval(() => {
         fetchData(key, argsRef.current, true);
       }, config.refetchInterval);
-      return () => clearInterval(id);
+      intervals.add(id);
+      return () => {
+        clearInterval(id);
+        intervals.delete(id);
+      };
     }, [key]);
 
     return useMemo(
@@ -181,7 +192,7 @@ export function createQueryHook<T>(config: QueryConfig<T>) {
 
   hook.prefetch = (...args: any[]) => {
     const key = JSON.stringify(args);
-    fetchData(key, args, false);
+    return fetchData(key, args, false);
   };
 
   hook.invalidate = (...args: any[]) => {
@@ -212,6 +223,33 @@ export function createQueryHook<T>(config: QueryConfig<T>) {
     return cache.get(key)?.data;
   };
 
+  hook.clear = () => {
+    const keys = [...cache.keys()];
+    cache.clear();
+    snapshotCache.clear();
+    // Dropping the request ids discards results of in-flight fetches
+    inflightId.clear();
+    accessOrder.length = 0;
+    keys.forEach(notify);
+  };
+
+  hook.destroy = () => {
+    if (destroyed) return;
+    intervals.forEach(clearInterval);
+    intervals.clear();
+    hook.clear();
+    destroyed = true;
+    listeners.clear();
+  };
+
+  hook.dehydrate = () => dehydrateCache(cache);
+
+  hook.hydrate = (entries) => {
+    hydrateCache(cache, entries, (key, entry) => {
+      setEntry(key, { ...getEntry(key), ...entry, loading: false });
+    });
+  };
+
   hook.optimisticUpdate = async <R>({
     args,
     updater,
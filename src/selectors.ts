@@ -0,0 +1,64 @@
+import { useSyncExternalStore, useCallback } from 'react';
+import type { SelectorHook } from './types';
+import { pathsChanged, type TrackedRun } from './tracking';
+
+interface SelectorEntry {
+  result: any;
+  deps: string[][];
+  // Exposed state the result was computed (or last validated) against
+  state: Record<string, any>;
+}
+
+const DEFAULT_MAX_CACHE_SIZE = 50;
+
+/**
+ * Creates a parameterized selector memoized per argument set.
+ * Each entry remembers the paths the selector read; it is reused as long as
+ * none of them changed. The least recently used entries are evicted once
+ * the cache holds more than maxCacheSize argument sets.
+ */
+export function createSelector(
+  fn: (state: any, ...args: any[]) => any,
+  getState: () => Record<string, any>,
+  subscribe: (listener: () => void) => () => void,
+  trackDeps: (fn: Function, stateObj: Record<string, any>) => TrackedRun,
+  maxCacheSize = DEFAULT_MAX_CACHE_SIZE,
+) {
+  // Map iteration order doubles as LRU order: oldest first
+  const cache = new Map<string, SelectorEntry>();
+
+  const select = ((...args: any[]) => {
+    const key = JSON.stringify(args);
+    const state = getState();
+    const entry = cache.get(key);
+
+    if (entry) {
+      cache.delete(key);
+      cache.set(key, entry);
+      if (entry.state === state || !pathsChanged(entry.deps, state, entry.state)) {
+        entry.state = state;
+        return entry.result;
+      }
+    }
+
+    const tracked = trackDeps((s: any) => fn(s, ...args), state);
+    cache.set(key, { result: tracked.result, deps: tracked.deps, state });
+    if (cache.size > maxCacheSize) {
+      cache.delete(cache.keys().next().value!);
+    }
+    return tracked.result;
+  }) as SelectorHook<any[], any>;
+
+  // Re-renders only when the memoized result for these args changes
+  select.use = (...args: any[]) => {
+    const key = JSON.stringify(args);
+    const snap = useCallback(() => select(...args), [key]);
+    return useSyncExternalStore(subscribe, snap, snap);
+  };
+
+  select.clear = () => {
+    cache.clear();
+  };
+
+  return select;
+}
@@ -0,0 +1,156 @@
+import type { Draft } from 'immer';
+import type { SetState, SliceConfig, SliceEffectHelpers } from './types';
+
+/** Separates a slice name from a member name in flattened config keys */
+export const NAMESPACE_SEPARATOR = '/';
+
+// slice draft → parent draft, set right before a slice action runs
+const parentDrafts = new WeakMap<object, object>();
+
+/**
+ * Typed identity for a slice config, like `immer()`. The slice is combined
+ * into a store with `create({ slices: { name: slice } })`.
+ */
+export function createSlice<C extends SliceConfig>(
+  config: C & {
+    state: C['state'];
+    actions?: { [K in keyof C['actions']]: (state: Draft<C['state']>, ...args: any[]) => void };
+    effects?: C['effects'];
+    computed?: { [K in keyof C['computed']]: (state: C['state'], deps: Record<string, any>) => any };
+  },
+): C {
+  return config;
+}
+
+/**
+ * The parent (store-level) draft of the draft passed to a slice action.
+ */
+export function parentDraft<P = any>(sliceDraft: object): Draft<P> {
+  const parent = parentDrafts.get(sliceDraft);
+  if (!parent) {
+    throw new Error('[zustand-immer-lite] parentDraft() must be called with the draft passed to a slice action.');
+  }
+  return parent as Draft<P>;
+}
+
+/**
+ * Apply a setState-style updater to one slice of the parent state.
+ */
+const scopeUpdater = (name: string, updater: any) => {
+  if (typeof updater === 'function') {
+    return (draft: any) => {
+      const result = updater(draft[name]);
+      if (result !== undefined) draft[name] = result;
+    };
+  }
+  return (draft: any) => {
+    Object.assign(draft[name], updater);
+  };
+};
+
+/**
+ * State seen by a slice's computed fns: the slice state plus the slice's own
+ * computed values, read lazily so dependency tracking still sees each access.
+ */
+const sliceView = (state: Record<string, any>, name: string, computedKeys: Set<string>) => {
+  const read = (prop: string) =>
+    computedKeys.has(prop) ? state[`${name}${NAMESPACE_SEPARATOR}${prop}`] : state[name][prop];
+  return new Proxy({}, {
+    get: (_target, prop) => (typeof prop === 'string' ? read(prop) : undefined),
+    has: (_target, prop) => computedKeys.has(prop as string) || prop in state[name],
+    ownKeys: () => [...Reflect.ownKeys(state[name]), ...computedKeys],
+    getOwnPropertyDescriptor: (_target, prop) => ({
+      value: read(prop as string), writable: false, enumerable: true, configurable: true,
+    }),
+  });
+};
+
+/**
+ * Flatten `config.slices` into a regular store config: each slice's state
+ * goes under its name, and its members are registered as `name/member`.
+ * `create()` exposes namespaced members as nested objects again.
+ */
+export function flattenSlices<C extends { state: Record<string, any>; slices?: Record<string, SliceConfig> }>(config: C): C {
+  if (!config.slices) return config;
+
+  const flat: any = {
+    ...config,
+    state: { ...config.state },
+    actions: { ...(config as any).actions },
+    effects: { ...(config as any).effects },
+    computed: { ...(config as any).computed },
+    queries: { ...(config as any).queries },
+    mutations: { ...(config as any).mutations },
+  };
+
+  for (const [name, slice] of Object.entries(config.slices)) {
+    if (name in flat.state) {
+      console.warn(
+        `[zustand-immer-lite] slice "${name}" overwrites state key with the same name. ` +
+        `Rename the slice to avoid unexpected behavior.`,
+      );
+    }
+    flat.state[name] = slice.state;
+    const ns = (key: string) => `${name}${NAMESPACE_SEPARATOR}${key}`;
+
+    for (const [key, fn] of Object.entries(slice.actions ?? {})) {
+      flat.actions[ns(key)] = (draft: any, ...args: any[]) => {
+        const sliceDraft = draft[name];
+        parentDrafts.set(sliceDraft, draft);
+        fn(sliceDraft, ...args);
+      };
+    }
+
+    for (const [key, entry] of Object.entries(slice.effects ?? {})) {
+      const { fn, ...options } = typeof entry === 'function' ? { fn: entry } : entry;
+      flat.effects[ns(key)] = {
+        ...options,
+        fn: (helpers: any, ...args: any[]) => {
+          const set: SetState<any> = (updater) => helpers.set(scopeUpdater(name, updater));
+          const sliceHelpers: SliceEffectHelpers<any> = {
+            ...helpers,
+            set,
+            get: () => helpers.get()[name],
+            parent: { get: helpers.get, set: helpers.set },
+          };
+          return fn(sliceHelpers, ...args);
+        },
+      };
+    }
+
+    const computedKeys = new Set(Object.keys(slice.computed ?? {}));
+    for (const [key, fn] of Object.entries(slice.computed ?? {})) {
+      flat.computed[ns(key)] = (state: Record<string, any>, deps: Record<string, any>) =>
+        fn(sliceView(state, name, computedKeys), deps);
+    }
+
+    for (const [key, query] of Object.entries(slice.queries ?? {})) {
+      flat.queries[ns(key)] = query;
+    }
+    for (const [key, mutation] of Object.entries(slice.mutations ?? {})) {
+      flat.mutations[ns(key)] = mutation;
+    }
+  }
+
+  delete flat.slices;
+  return flat;
+}
+
+/**
+ * Turn `{ 'todos/add': fn }` into `{ todos: { add: fn } }`; keys without a
+ * namespace are kept as they are.
+ */
+export function nestNamespaced(flat: Record<string, any>): Record<string, any> {
+  const nested: Record<string, any> = {};
+  for (const [key, value] of Object.entries(flat)) {
+    const index = key.indexOf(NAMESPACE_SEPARATOR);
+    if (index === -1) {
+      nested[key] = value;
+    } else {
+      const name = key.slice(0, index);
+      nested[name] ??= {};
+      nested[name][key.slice(index + 1)] = value;
+    }
+  }
+  return nested;
+}
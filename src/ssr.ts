@@ -0,0 +1,101 @@
+import type { DehydratedError, DehydratedQueryCache, DehydratedStore } from './types';
+
+interface CacheEntryLike<D> {
+  data: D | undefined;
+  loading: boolean;
+  error: Error | null;
+  fetchedAt: number;
+}
+
+interface HydratableQuery {
+  dehydrate: () => DehydratedQueryCache<any>;
+  hydrate: (entries: DehydratedQueryCache<any>) => void;
+}
+
+interface StoreInternals {
+  getRawState: () => Record<string, any>;
+  hydrateState: (state: Record<string, any>) => void;
+  /** Query hooks by flat name ("todos/byId" for slice queries) */
+  queries: Record<string, HydratableQuery>;
+}
+
+// Store hook → the private state dehydrate/hydrate need
+const storeInternals = new WeakMap<object, StoreInternals>();
+
+export function registerStoreInternals(store: object, internals: StoreInternals): void {
+  storeInternals.set(store, internals);
+}
+
+const getInternals = (store: object): StoreInternals => {
+  const internals = storeInternals.get(store);
+  if (!internals) {
+    throw new Error('[zustand-immer-lite] dehydrate()/hydrate() expect a store created with create().');
+  }
+  return internals;
+};
+
+// ─── Query caches ─────────────────────────────────────────────────
+
+/**
+ * Serializable copy of the settled entries of a query cache. Entries that
+ * are still loading their first result are left out.
+ */
+export function dehydrateCache<D>(cache: Map<string, CacheEntryLike<D>>): DehydratedQueryCache<D> {
+  const entries: DehydratedQueryCache<D> = {};
+  for (const [key, entry] of cache) {
+    if (entry.data === undefined && entry.error === null) continue;
+    const error: DehydratedError | null = entry.error
+      ? { name: entry.error.name, message: entry.error.message }
+      : null;
+    entries[key] = { data: entry.data, fetchedAt: entry.fetchedAt, error };
+  }
+  return entries;
+}
+
+/**
+ * Feed dehydrated entries to `apply`, skipping keys whose local entry was
+ * fetched more recently than the dehydrated one.
+ */
+export function hydrateCache<D>(
+  cache: Map<string, CacheEntryLike<D>>,
+  entries: DehydratedQueryCache<D>,
+  apply: (key: string, entry: { data: D | undefined; fetchedAt: number; error: Error | null }) => void,
+): void {
+  for (const [key, entry] of Object.entries(entries)) {
+    const local = cache.get(key);
+    if (local && local.fetchedAt >= entry.fetchedAt && local.data !== undefined) continue;
+    const error = entry.error
+      ? Object.assign(new Error(entry.error.message), { name: entry.error.name })
+      : null;
+    apply(key, { data: entry.data, fetchedAt: entry.fetchedAt, error });
+  }
+}
+
+// ─── Stores ───────────────────────────────────────────────────────
+
+/**
+ * Serialize a store for SSR: its raw state plus every settled query and
+ * infinite-query cache entry. The result is plain JSON.
+ */
+export function dehydrate(store: object): DehydratedStore {
+  const { getRawState, queries } = getInternals(store);
+  const dehydrated: DehydratedStore = { state: getRawState(), queries: {} };
+  for (const [name, query] of Object.entries(queries)) {
+    const entries = query.dehydrate();
+    if (Object.keys(entries).length > 0) dehydrated.queries[name] = entries;
+  }
+  return dehydrated;
+}
+
+/**
+ * Seed a store with the payload of `dehydrate()` before the client renders.
+ * Hydrated queries are not refetched while fresh (per `staleTime`), and the
+ * hydrated state is what React compares against while hydrating.
+ */
+export function hydrate(store: object, payload: DehydratedStore): void {
+  const { hydrateState, queries } = getInternals(store);
+  hydrateState(payload.state);
+  for (const [name, entries] of Object.entries(payload.queries)) {
+    queries[name]?.hydrate(entries);
+  }
+}
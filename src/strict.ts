@@ -0,0 +1,61 @@
+/**
+ * Read-only views of state for `strict` mode.
+ *
+ * A view is a Proxy over a frozen shallow copy whose children are views
+ * too, so reads behave like the original while every write throws an
+ * error naming the path. Views are cached per original object, so they
+ * keep the structural sharing (and the `Object.is` results) of the state.
+ */
+
+const isPlainObject = (value: unknown): value is Record<string, any> => {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+// Original object → its view
+const views = new WeakMap<object, object>();
+// View → path it was first reached at
+const viewPaths = new WeakMap<object, string>();
+
+const mutationError = (view: object, prop: PropertyKey, verb: string): Error => {
+  const base = viewPaths.get(view)!;
+  const path = base ? `${base}.${String(prop)}` : String(prop);
+  return new Error(
+    `[zustand-immer-lite] strict mode: cannot ${verb} "${path}" outside an action. ` +
+    'State returned by getState() and selectors is read-only; change it with an action or setState.',
+  );
+};
+
+/**
+ * Deeply read-only view of plain objects and arrays; other values are
+ * returned as is. `path` labels the value in error messages.
+ */
+export function readonly<T>(value: T, path = ''): T {
+  if (!Array.isArray(value) && !isPlainObject(value)) return value;
+  if (viewPaths.has(value)) return value;
+  const existing = views.get(value);
+  if (existing) return existing as T;
+
+  const source = value as Record<string, any>;
+  const shadow: Record<string, any> = Array.isArray(value) ? [] : Object.create(Object.getPrototypeOf(value));
+  const view: object = new Proxy(shadow, {
+    set(_shadow, prop) { throw mutationError(view, prop, 'set'); },
+    deleteProperty(_shadow, prop) { throw mutationError(view, prop, 'delete'); },
+    defineProperty(target, prop, descriptor) {
+      // Object.freeze() on a view redefines nothing and is allowed
+      if (Reflect.defineProperty(target, prop, descriptor)) return true;
+      throw mutationError(view, prop, 'define');
+    },
+    setPrototypeOf() { throw mutationError(view, '__proto__', 'set'); },
+  });
+  // Registered before the children so cycles resolve to this view
+  views.set(value, view);
+  viewPaths.set(view, path);
+
+  for (const key of Object.keys(source)) {
+    shadow[key] = readonly(source[key], path ? `${path}.${key}` : key);
+  }
+  Object.freeze(shadow);
+  return view as T;
+}
@@ -0,0 +1,163 @@
+/**
+ * Dependency tracking for computed values.
+ *
+ * A computed fn runs against a Proxy that records which paths it reads.
+ * Dependencies are stored as paths (`['settings', 'theme']`); shallow
+ * tracking only ever records single-key paths.
+ */
+
+export type ComputedTracking = 'shallow' | 'deep';
+
+export interface TrackedRun {
+  result: any;
+  /** Paths read by the fn — the array keeps growing if an async fn reads after `await` */
+  deps: string[][];
+  /** Replace tracking proxies that escaped into a (resolved) result */
+  unwrap: (value: any) => any;
+}
+
+const identity = (value: any) => value;
+
+const isPlainObject = (value: unknown): value is Record<string, any> => {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Record which top-level keys are read from the state object.
+ */
+export function trackShallow(fn: Function, stateObj: Record<string, any>): TrackedRun {
+  const accessed = new Set<string>();
+  const deps: string[][] = [];
+  const proxy = new Proxy(stateObj, {
+    get(target, prop, receiver) {
+      if (typeof prop === 'string' && !accessed.has(prop)) {
+        accessed.add(prop);
+        deps.push([prop]);
+      }
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+  return { result: fn(proxy), deps, unwrap: identity };
+}
+
+/**
+ * Record the full path of every value read from the state object.
+ * Plain objects are wrapped in nested proxies; any other value (arrays
+ * included) is a leaf and is recorded at its path. Proxies sit on an empty
+ * shadow target because Immer freezes state, and a frozen target would not
+ * let the `get` trap return a wrapped child.
+ */
+export function trackDeep(fn: Function, stateObj: Record<string, any>): TrackedRun {
+  const deps: string[][] = [];
+  const recorded = new Set<string>();
+  const proxies = new WeakMap<object, object>();
+  const targets = new WeakMap<object, { target: object; path: string[] }>();
+
+  const record = (path: string[]) => {
+    const id = path.join('\u0000');
+    if (recorded.has(id)) return;
+    recorded.add(id);
+    deps.push(path);
+  };
+
+  const wrap = (target: Record<string, any>, path: string[]): object => {
+    const existing = proxies.get(target);
+    if (existing) return existing;
+    // Reading the key set (Object.keys, `in`) depends on the object as a whole
+    const recordWhole = () => { if (path.length > 0) record(path); };
+    const proxy = new Proxy(Object.create(Object.getPrototypeOf(target)), {
+      get(_shadow, prop) {
+        const value = Reflect.get(target, prop);
+        if (typeof prop !== 'string') return value;
+        const childPath = [...path, prop];
+        if (isPlainObject(value)) return wrap(value, childPath);
+        record(childPath);
+        return value;
+      },
+      has(_shadow, prop) {
+        recordWhole();
+        return Reflect.has(target, prop);
+      },
+      ownKeys() {
+        recordWhole();
+        return Reflect.ownKeys(target);
+      },
+      getOwnPropertyDescriptor(_shadow, prop) {
+        const desc = Reflect.getOwnPropertyDescriptor(target, prop);
+        // The shadow has no own properties, so they must be reported configurable
+        if (desc) desc.configurable = true;
+        return desc;
+      },
+    });
+    proxies.set(target, proxy);
+    targets.set(proxy, { target, path });
+    return proxy;
+  };
+
+  const unwrap = (value: any, seen = new Set<object>()): any => {
+    if (value === null || typeof value !== 'object') return value;
+    const tracked = targets.get(value);
+    if (tracked) {
+      // The result holds the object itself, so it depends on its identity
+      record(tracked.path);
+      return tracked.target;
+    }
+    // Only fresh containers built by the fn can hold proxies; state is frozen
+    if (seen.has(value) || Object.isFrozen(value)) return value;
+    if (!Array.isArray(value) && !isPlainObject(value)) return value;
+    seen.add(value);
+    const container = value as Record<string, any>;
+    for (const key of Object.keys(container)) {
+      const child = container[key];
+      const unwrapped = unwrap(child, seen);
+      if (unwrapped !== child) container[key] = unwrapped;
+    }
+    return container;
+  };
+
+  const result = fn(wrap(stateObj, []));
+  return { result: unwrap(result), deps, unwrap: (value) => unwrap(value) };
+}
+
+/**
+ * Whether the value at `path` differs between two states, comparing with
+ * `Object.is` level by level (an identical parent means an identical child).
+ */
+const pathChanged = (path: string[], next: any, prev: any): boolean => {
+  let a = next;
+  let b = prev;
+  for (const segment of path) {
+    if (Object.is(a, b)) return false;
+    a = a?.[segment];
+    b = b?.[segment];
+  }
+  return !Object.is(a, b);
+};
+
+/**
+ * Whether any dependency path changed between two states.
+ */
+export function pathsChanged(deps: string[][], next: Record<string, any>, prev: Record<string, any>): boolean {
+  return deps.some((path) => pathChanged(path, next, prev));
+}
+
+/**
+ * Whether any dependency path of a computed value changed. `changedKeys`
+ * holds the top-level keys (state and computed) that changed; paths into raw
+ * state are then compared level by level.
+ */
+export function depsChanged(
+  deps: string[][],
+  next: Record<string, any>,
+  prev: Record<string, any>,
+  changedKeys: Set<string>,
+  computedKeys: Set<string>,
+): boolean {
+  return deps.some((path) => {
+    if (!changedKeys.has(path[0])) return false;
+    if (path.length === 1 || computedKeys.has(path[0])) return true;
+    return pathChanged(path, next, prev);
+  });
+}
@@ -0,0 +1,138 @@
+import type { Patch } from 'immer';
+
+/** A commit made while a transaction was open */
+export interface TransactionCommit {
+  /** Raw state before and after the commit */
+  prevState: any;
+  nextState: any;
+  /** Its patches, recorded for undo once the transaction succeeds */
+  patches: Patch[];
+  inversePatches: Patch[];
+  /** Made through the transaction's own helpers */
+  own: boolean;
+}
+
+export type RollbackResult<S> =
+  | { state: S; conflict?: undefined }
+  /** Dot path of a change that could not be rebased; nothing was reverted */
+  | { state?: undefined; conflict: string };
+
+// Stands in for a missing object key
+const ABSENT = Symbol('absent');
+
+class RollbackConflict {
+  constructor(public path: PropertyKey[]) {}
+}
+
+const isPlainObject = (value: unknown): value is Record<PropertyKey, unknown> => {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+const read = (value: any, key: PropertyKey) => (key in value ? value[key] : ABSENT);
+
+/** Index of `item` in `items`, skipping indices already matched */
+const findItem = (items: unknown[], item: unknown, taken: Set<number>): number => {
+  for (let i = 0; i < items.length; i++) {
+    if (!taken.has(i) && Object.is(items[i], item)) {
+      taken.add(i);
+      return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Undo `after` → `before` on an array that other commits may have changed
+ * since (`current`). Items are matched by identity — Immer keeps untouched
+ * items as the same references — so the items the commit inserted are
+ * removed and the ones it removed are put back next to their old
+ * neighbours, wherever other commits moved them.
+ */
+function revertArray(current: unknown[], after: unknown[], before: unknown[], path: PropertyKey[]): unknown[] {
+  let prefix = 0;
+  while (prefix < after.length && prefix < before.length && Object.is(after[prefix], before[prefix])) prefix++;
+  let suffix = 0;
+  while (
+    suffix < after.length - prefix && suffix < before.length - prefix
+    && Object.is(after[after.length - 1 - suffix], before[before.length - 1 - suffix])
+  ) suffix++;
+  const inserted = after.slice(prefix, after.length - suffix);
+  const removed = before.slice(prefix, before.length - suffix);
+  const taken = new Set<number>();
+
+  // Items changed in place: swap each back where it now is
+  if (inserted.length === removed.length) {
+    const result = current.slice();
+    inserted.forEach((item, i) => {
+      const index = findItem(current, item, taken);
+      if (index === -1) throw new RollbackConflict([...path, prefix + i]);
+      result[index] = removed[i];
+    });
+    return result;
+  }
+
+  for (let i = 0; i < inserted.length; i++) {
+    if (findItem(current, inserted[i], taken) === -1) throw new RollbackConflict([...path, prefix + i]);
+  }
+  const result = current.filter((_, index) => !taken.has(index));
+  if (removed.length === 0) return result;
+
+  // Put the removed items back after their left neighbour, or before their right one
+  let at = 0;
+  if (prefix > 0) {
+    const index = result.indexOf(after[prefix - 1]);
+    if (index === -1) throw new RollbackConflict([...path, prefix - 1]);
+    at = index + 1;
+  } else if (suffix > 0) {
+    at = result.indexOf(after[after.length - suffix]);
+    if (at === -1) throw new RollbackConflict([...path, after.length - suffix]);
+  }
+  result.splice(at, 0, ...removed);
+  return result;
+}
+
+/**
+ * Undo the change `after` → `before` on `current`, keeping whatever other
+ * commits changed since. A value another commit replaced is kept as is:
+ * the later write wins.
+ */
+function revert(current: any, after: any, before: any, path: PropertyKey[]): any {
+  if (Object.is(after, before)) return current;
+  if (Object.is(current, after)) return before;
+
+  if (Array.isArray(current) && Array.isArray(after) && Array.isArray(before)) {
+    return revertArray(current, after, before, path);
+  }
+  if (isPlainObject(current) && isPlainObject(after) && isPlainObject(before)) {
+    const result: Record<PropertyKey, unknown> = { ...current };
+    for (const key of new Set([...Reflect.ownKeys(after), ...Reflect.ownKeys(before)])) {
+      const value = revert(read(current, key), read(after, key), read(before, key), [...path, key]);
+      if (value === ABSENT) delete result[key];
+      else result[key] = value;
+    }
+    return result;
+  }
+  return current;
+}
+
+/**
+ * The state with a transaction's own commits undone, newest first, and the
+ * commits made by others in the meantime kept. Each own commit is rebased
+ * over the later ones. When one cannot be — an array item it inserted or
+ * changed was also changed by another commit — nothing is reverted and the
+ * conflicting path is returned instead.
+ */
+export function rollbackState<S>(current: S, log: TransactionCommit[]): RollbackResult<S> {
+  let state = current;
+  try {
+    for (let i = log.length - 1; i >= 0; i--) {
+      if (log[i].own) state = revert(state, log[i].nextState, log[i].prevState, []);
+    }
+  } catch (e) {
+    if (e instanceof RollbackConflict) return { conflict: e.path.map(String).join('.') };
+    throw e;
+  }
+  return { state };
+}
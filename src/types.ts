@@ -1,4 +1,4 @@
-import type { Draft } from 'immer';
+import type { Draft, Patch } from 'immer';
 
 // ─── SetState ───────────────────────────────────────────────────────
 
@@ -6,9 +6,22 @@ export type SetState<S> = (updater: S | Partial<S> | ((draft: Draft<S>) => void)
 
 // ─── Effect helpers ─────────────────────────────────────────────────
 
-export interface EffectHelpers<S> {
+export interface EffectHelpers<S, D = Record<string, any>> {
   set: SetState<S>;
   get: () => S;
+  /** Aborted when a newer call supersedes this run; `set` is then ignored */
+  signal: AbortSignal;
+  /** Current state of each store in `dependsOn` */
+  deps: D;
+}
+
+export type EffectConcurrency = 'takeEvery' | 'takeLatest' | 'exhaust' | 'debounce' | 'throttle';
+
+export interface EffectConfig<S> {
+  fn: (helpers: EffectHelpers<S>, ...args: any[]) => Promise<any>;
+  concurrency?: EffectConcurrency;
+  /** Wait time in ms for `debounce` and `throttle` */
+  wait?: number;
 }
 
 // ─── Infer bound types ──────────────────────────────────────────────
@@ -23,21 +36,74 @@ type StripFirstAsync<F> =
     ? (...args: P) => R
     : () => Promise<void>;
 
+export interface EffectStatus<R = unknown> {
+  /** True while at least one run is in progress */
+  running: boolean;
+  /** Error thrown by the last run, cleared when a new run starts */
+  error: Error | null;
+  /** Value returned by the last successful run */
+  lastResult: R | undefined;
+  /** Number of runs started */
+  callCount: number;
+}
+
+type InferEffectFn<E> = E extends { fn: infer F } ? StripFirstAsync<F> : StripFirstAsync<E>;
+
 export type InferActions<A> = { [K in keyof A]: StripFirst<A[K]> };
-export type InferEffects<E> = { [K in keyof E]: StripFirstAsync<E[K]> };
+export type InferEffects<E> = { [K in keyof E]: InferEffectFn<E[K]> };
 
 // ─── Computed ───────────────────────────────────────────────────────
 
+export interface AsyncComputedValue<T> {
+  /** Last resolved value (kept while a newer run is loading) */
+  value: T | undefined;
+  loading: boolean;
+  error: Error | null;
+}
+
 export type InferComputed<Co> = {
-  [K in keyof Co]: Co[K] extends (state: any) => infer R ? R : never;
+  [K in keyof Co]: Co[K] extends (state: any, deps: any) => infer R
+    ? R extends PromiseLike<infer V> ? AsyncComputedValue<V> : R
+    : never;
+};
+
+// ─── Store dependencies ─────────────────────────────────────────────
+
+/** Any store a store can depend on: a `create()` store fits */
+export interface DependencyStore<T = any> {
+  getState: () => T;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export type InferDependencies<D> = {
+  [K in keyof D]: D[K] extends DependencyStore<infer T> ? T : never;
+};
+
+// ─── Selectors ──────────────────────────────────────────────────────
+
+export type SelectorHook<P extends any[], R> = ((...args: P) => R) & {
+  /** React hook — re-renders only when the result for these args changes */
+  use: (...args: P) => R;
+  /** Drop every memoized result */
+  clear: () => void;
+};
+
+export type InferSelectors<Se> = {
+  [K in keyof Se]: Se[K] extends (state: any, ...args: infer P) => infer R
+    ? SelectorHook<P, R>
+    : never;
 };
 
 // ─── Storage ────────────────────────────────────────────────────────
 
+/**
+ * Sync (localStorage) or async (IndexedDB wrappers, React Native AsyncStorage)
+ * storage. Writes may return anything; a returned promise is awaited
+ */
 export interface StateStorage {
-  getItem: (name: string) => string | null;
-  setItem: (name: string, value: string) => void;
-  removeItem: (name: string) => void;
+  getItem: (name: string) => string | null | Promise<string | null>;
+  setItem: (name: string, value: string) => unknown;
+  removeItem: (name: string) => unknown;
 }
 
 // ─── PersistConfig ──────────────────────────────────────────────────
@@ -47,9 +113,190 @@ export interface PersistConfig<S> {
   storage?: StateStorage;
   partialize?: (state: S) => Partial<S>;
   version?: number;
-  migrate?: (persisted: any, version: number) => S;
+  migrate?: (persisted: any, version: number) => S | Promise<S>;
   merge?: (persisted: Partial<S>, current: S) => S;
   onRehydrationFinished?: (state: S) => void;
+  /**
+   * Follow changes made by other tabs. `true` listens for `storage` events
+   * with localStorage and uses a BroadcastChannel with any other storage
+   */
+  sync?: boolean | 'storage' | 'broadcast';
+  /**
+   * When commits are written. `{ debounceMs }` and `'idle'` coalesce
+   * writes; a pending one is written on `pagehide`, `beforeunload`,
+   * `flush()`, `pause()` and `destroy()`
+   */
+  writeStrategy?: PersistWriteStrategy;
+}
+
+export type PersistWriteStrategy = 'immediate' | { debounceMs: number } | 'idle';
+
+/** `S` is the raw state that is stored, `E` the state listeners receive */
+export interface PersistApi<S, E = S> {
+  /** False while an async storage or `migrate` is still being read */
+  hasHydrated: () => boolean;
+  /** Called when a hydration starts: an async first one, or `rehydrate()` */
+  onHydrate: (listener: (state: E) => void) => () => void;
+  /** Called when such a hydration has finished */
+  onFinishHydration: (listener: (state: E) => void) => () => void;
+  /** Read the stored entry again and merge it into the current state */
+  rehydrate: () => Promise<void>;
+  /** Remove the stored entry and drop a pending write; the state is left as is */
+  clearStorage: () => void;
+  /** Write the current state now, including a pending write; ignored while paused or hydrating */
+  flush: () => void;
+  /** Stop writing commits to storage until `resume()`; a pending write is written first */
+  pause: () => void;
+  /** Write again from the next commit on */
+  resume: () => void;
+  getOptions: () => Partial<PersistConfig<S>>;
+  /** Change options in place, e.g. `name` after a login; does not rehydrate */
+  setOptions: (options: Partial<PersistConfig<S>>) => void;
+}
+
+// ─── Validation ─────────────────────────────────────────────────────
+
+export interface ValidationIssue {
+  /** Path of the invalid value; empty for the state as a whole */
+  path: PropertyKey[];
+  message: string;
+}
+
+export type ValidationResult = true | ValidationIssue[];
+
+export interface InvalidStateEvent<S> {
+  /** What produced the state: a commit type, or `hydrate` for persisted state */
+  type: CommitMeta['type'] | 'hydrate';
+  /** Action or effect name, the persist `name` for `hydrate`; otherwise the same as `type` */
+  name: string;
+  issues: ValidationIssue[];
+  /** The state that failed validation */
+  state: S;
+  /** False when `rejectInvalid: false` let the state through */
+  rejected: boolean;
+}
+
+// ─── Commits & patches ──────────────────────────────────────────────
+
+export interface CommitMeta {
+  /** What produced the commit */
+  type:
+    | 'action' | 'effect' | 'setState' | 'undo' | 'redo' | 'applyPatches' | 'batch' | 'reset'
+    | 'transaction' | 'rollback' | 'middleware';
+  /** Action or effect name; otherwise the same as `type` */
+  name: string;
+}
+
+export type PatchListener = (patches: Patch[], inversePatches: Patch[], meta: CommitMeta) => void;
+
+// ─── Transactions ───────────────────────────────────────────────────
+
+export interface TransactionHelpers<S, A, X = S> {
+  /** Commit immediately; reverted if the transaction fails */
+  set: SetState<S>;
+  get: () => X;
+  /** The store's actions; their commits are reverted if the transaction fails */
+  actions: A;
+}
+
+// ─── Action events ──────────────────────────────────────────────────
+
+export interface ActionEvent<S = any> {
+  type: 'action' | 'effect' | 'setState';
+  /** Action or effect name (`slice/name` for slice members), or `setState` */
+  name: string;
+  args: any[];
+  /** Store state (with computed values) before the call */
+  prevState: S;
+  /** Store state after the call; for an effect's `start` event, the same as `prevState` */
+  nextState: S;
+  durationMs: number;
+  /** Effects only: one event when a run starts and one when it settles */
+  phase?: 'start' | 'end';
+  /** Effects only: the resolved value, on `end` */
+  result?: unknown;
+  /** Effects only: the rejection, on `end` */
+  error?: Error;
+}
+
+export type ActionListener<S = any> = (event: ActionEvent<S>) => void;
+
+// ─── Middleware ─────────────────────────────────────────────────────
+
+export interface CommitContext<S> extends CommitMeta {
+  /** Arguments of the action, or the updater / patches passed in */
+  args: any[];
+  /** Raw state before the commit */
+  prevState: S;
+  /** Raw state about to be committed */
+  nextState: S;
+}
+
+export interface EffectContext {
+  name: string;
+  args: any[];
+}
+
+export interface StoreApi<S> {
+  getState: () => S;
+  setState: SetState<S>;
+  subscribe: SubscribeWithSelector<S>;
+}
+
+export interface StoreMiddleware<S> {
+  /** Transform the initial raw state once, before the first render */
+  init?: (state: S) => S;
+  /**
+   * Called once when the store has been created. `api.setState` commits as
+   * type `middleware`: not an undo step, and not validated
+   */
+  setup?: (api: StoreApi<S>) => void;
+  /**
+   * Wraps every commit. Call `next()` synchronously to let it through, or
+   * `next(state)` to commit a different state. Not calling `next` vetoes it.
+   */
+  onCommit?: (ctx: CommitContext<S>, next: (state?: S) => void) => void;
+  /** Wraps every bound effect call */
+  onEffect?: (ctx: EffectContext, next: () => Promise<any>) => Promise<any>;
+  /** Called after a commit has been applied and subscribers notified */
+  afterCommit?: (ctx: CommitContext<S>) => void;
+  /** Called once when the store is destroyed; release listeners and timers */
+  destroy?: () => void;
+}
+
+// ─── History ────────────────────────────────────────────────────────
+
+export interface HistoryConfig {
+  /** Maximum number of undo steps kept (default 100) */
+  limit?: number;
+}
+
+export interface StoreHistory {
+  undo: () => void;
+  redo: () => void;
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  clear: () => void;
+  /** Record every commit made inside `fn` as a single undo step */
+  group: (fn: () => void) => void;
+}
+
+// ─── Reset ──────────────────────────────────────────────────────────
+
+export interface ResetOptions {
+  /** Also remove the persisted entry from storage */
+  clearPersisted?: boolean;
+  /** Also clear the cache of every query and infinite query */
+  queries?: boolean;
+  /** Also reset every mounted mutation */
+  mutations?: boolean;
+}
+
+// ─── Devtools ───────────────────────────────────────────────────────
+
+export interface DevtoolsConfig {
+  /** Instance name shown in the Redux DevTools extension */
+  name?: string;
 }
 
 // ─── SubscribeWithSelector ──────────────────────────────────────────
@@ -66,6 +313,30 @@ export interface SubscribeWithSelector<S> {
   ): () => void;
 }
 
+// ─── SSR ────────────────────────────────────────────────────────────
+
+/** Errors are sent as plain objects, since `Error` does not survive JSON */
+export interface DehydratedError {
+  name: string;
+  message: string;
+}
+
+export interface DehydratedQueryEntry<D = unknown> {
+  data: D | undefined;
+  fetchedAt: number;
+  error: DehydratedError | null;
+}
+
+/** Query cache entries keyed by their JSON-serialized args */
+export type DehydratedQueryCache<D = unknown> = Record<string, DehydratedQueryEntry<D>>;
+
+export interface DehydratedStore {
+  /** Raw state, without computed values */
+  state: Record<string, any>;
+  /** Cache of every query and infinite query, by query name */
+  queries: Record<string, DehydratedQueryCache>;
+}
+
 // ─── Query ──────────────────────────────────────────────────────────
 
 export interface QueryConfig<T = any> {
@@ -83,11 +354,20 @@ export interface QueryResult<T> {
 }
 
 export interface QueryHookMethods<T> {
-  prefetch: (...args: any[]) => void;
+  /** Fetch unless fresh; resolves once the cache entry is settled */
+  prefetch: (...args: any[]) => Promise<void>;
   invalidate: (...args: any[]) => void;
   invalidateAll: () => void;
   setQueryData: (args: any[], updater: T | ((prev: T | undefined) => T)) => void;
   getQueryData: (args: any[]) => T | undefined;
+  /** Drop every cache entry and discard in-flight results */
+  clear: () => void;
+  /** Clear the cache, stop refetchInterval timers and ignore later fetches */
+  destroy: () => void;
+  /** Serializable copy of every settled cache entry */
+  dehydrate: () => DehydratedQueryCache<T>;
+  /** Seed cache entries, keeping entries fetched more recently on this side */
+  hydrate: (entries: DehydratedQueryCache<T>) => void;
   optimisticUpdate: <R>(config: {
     args: any[];
     updater: (prev: T | undefined) => T;
@@ -118,10 +398,17 @@ export interface MutationResult<T> {
   reset: () => void;
 }
 
+export interface MutationHookMethods {
+  /** Reset data and error of every mounted instance */
+  resetAll: () => void;
+}
+
+export type MutationHook<T> = (() => MutationResult<T>) & MutationHookMethods;
+
 type InferMutationFn<M> =
   M extends { fn: (...args: infer _P) => Promise<infer T> }
-    ? () => MutationResult<T>
-    : () => MutationResult<unknown>;
+    ? MutationHook<T>
+    : MutationHook<unknown>;
 
 export type InferMutations<M> = {
   [K in keyof M]: InferMutationFn<M[K]>;
@@ -158,11 +445,20 @@ export interface InfiniteQueryResult<T> {
 }
 
 export interface InfiniteQueryHookMethods<T> {
-  prefetch: (...args: any[]) => void;
+  /** Fetch the first page unless fresh; resolves once the cache entry is settled */
+  prefetch: (...args: any[]) => Promise<void>;
   invalidate: (...args: any[]) => void;
   invalidateAll: () => void;
   setQueryData: (args: any[], updater: InfiniteData<T> | ((prev: InfiniteData<T> | undefined) => InfiniteData<T>)) => void;
   getQueryData: (args: any[]) => InfiniteData<T> | undefined;
+  /** Drop every cache entry and discard in-flight results */
+  clear: () => void;
+  /** Clear the cache, stop refetchInterval timers and ignore later fetches */
+  destroy: () => void;
+  /** Serializable copy of every settled cache entry */
+  dehydrate: () => DehydratedQueryCache<InfiniteData<T>>;
+  /** Seed cache entries, keeping entries fetched more recently on this side */
+  hydrate: (entries: DehydratedQueryCache<InfiniteData<T>>) => void;
 }
 
 export type InfiniteQueryHook<T> = ((...args: any[]) => InfiniteQueryResult<T>) & InfiniteQueryHookMethods<T>;
@@ -180,16 +476,79 @@ export type InferQueries<Q> = {
   [K in keyof Q]: InferQueryFn<Q[K]>;
 };
 
+// ─── Slices ─────────────────────────────────────────────────────────
+
+export interface SliceEffectHelpers<S> extends EffectHelpers<S> {
+  /** Read and update the whole store state from a slice effect */
+  parent: { get: () => any; set: SetState<any> };
+}
+
+export interface SliceConfig {
+  state: Record<string, any>;
+  actions?: Record<string, (...args: any[]) => any>;
+  effects?: Record<string, ((...args: any[]) => any) | { fn: (...args: any[]) => any; concurrency?: EffectConcurrency; wait?: number }>;
+  computed?: Record<string, (state: any, deps: any) => any>;
+  queries?: Record<string, { fn: (...args: any[]) => Promise<any>; [option: string]: any }>;
+  mutations?: Record<string, { fn: (...args: any[]) => Promise<any>; [option: string]: any }>;
+}
+
+type SliceMember<Sl, K extends keyof Sl, Key extends keyof SliceConfig> =
+  NonNullable<Sl[K] extends { [P in Key]?: infer V } ? V : {}>;
+
+export type InferSliceState<Sl> = { [K in keyof Sl]: SliceMember<Sl, K, 'state'> };
+export type InferSliceComputed<Sl> = { [K in keyof Sl]: InferComputed<SliceMember<Sl, K, 'computed'>> };
+export type InferSliceActions<Sl> = { [K in keyof Sl]: InferActions<SliceMember<Sl, K, 'actions'>> };
+export type InferSliceEffects<Sl> = { [K in keyof Sl]: InferEffects<SliceMember<Sl, K, 'effects'>> };
+export type InferSliceQueries<Sl> = { [K in keyof Sl]: InferQueries<SliceMember<Sl, K, 'queries'>> };
+export type InferSliceMutations<Sl> = { [K in keyof Sl]: InferMutations<SliceMember<Sl, K, 'mutations'>> };
+
+/** Slice effects are named `slice/effect` in effect statuses and middleware */
+type SliceEffectNames<Sl> = {
+  [K in keyof Sl & string]: `${K}/${keyof SliceMember<Sl, K, 'effects'> & string}`;
+}[keyof Sl & string];
+
+type EffectStatusOf<E, K> = EffectStatus<K extends keyof E ? Awaited<ReturnType<InferEffects<E>[K]>> : unknown>;
+
 // ─── UseStore hook ──────────────────────────────────────────────────
 
-export interface UseStore<S, A, E, Co = {}, Q = {}, M = {}> {
-  (): S & InferComputed<Co>;
-  <R>(selector: (state: S & InferComputed<Co>) => R): R;
-  actions: InferActions<A>;
-  effects: InferEffects<E>;
-  queries: InferQueries<Q>;
-  mutations: InferMutations<M>;
-  getState: () => S & InferComputed<Co>;
+/** State exposed to selectors: raw state, computed values and slice computed values */
+type ExposedState<S, Co, Sl> = S & InferComputed<Co> & InferSliceComputed<Sl>;
+
+export interface UseStore<S, A, E, Co = {}, Q = {}, M = {}, Se = {}, Sl = {}> {
+  (): ExposedState<S, Co, Sl>;
+  /** `equalityFn` decides whether a new selector result re-renders (default `Object.is`) */
+  <R>(selector: (state: ExposedState<S, Co, Sl>) => R, equalityFn?: (a: R, b: R) => boolean): R;
+  actions: InferActions<A> & InferSliceActions<Sl>;
+  effects: InferEffects<E> & InferSliceEffects<Sl>;
+  getEffectStatus: <K extends keyof E | SliceEffectNames<Sl>>(name: K) => EffectStatusOf<E, K>;
+  useEffectStatus: <K extends keyof E | SliceEffectNames<Sl>>(name: K) => EffectStatusOf<E, K>;
+  selectors: InferSelectors<Se>;
+  queries: InferQueries<Q> & InferSliceQueries<Sl>;
+  mutations: InferMutations<M> & InferSliceMutations<Sl>;
+  getState: () => ExposedState<S, Co, Sl>;
   setState: SetState<S>;
-  subscribe: SubscribeWithSelector<S & InferComputed<Co>>;
+  subscribe: SubscribeWithSelector<ExposedState<S, Co, Sl>>;
+  history: StoreHistory;
+  subscribePatches: (listener: PatchListener) => () => void;
+  /** Listen for the action, effect or setState call behind each change */
+  onAction: (listener: ActionListener<ExposedState<S, Co, Sl>>) => () => void;
+  applyPatches: (patches: Patch[]) => void;
+  /**
+   * Apply changes optimistically; if `fn` throws, revert them and keep
+   * commits made by anything else in the meantime
+   */
+  transaction: <T>(
+    fn: (helpers: TransactionHelpers<S, InferActions<A> & InferSliceActions<Sl>, ExposedState<S, Co, Sl>>) => Promise<T>,
+  ) => Promise<T>;
+  /** Coalesce every commit made inside `fn` into a single notification */
+  batch: <T>(fn: () => T) => T;
+  getInitialState: () => S;
+  /** Restore all (or the given) keys of the initial state */
+  reset: (keys?: (keyof S)[], options?: ResetOptions) => void;
+  /** Release listeners, timers, caches and in-flight requests; later calls are ignored */
+  destroy: () => void;
+  /** Hydration status and control of `persist`; no-ops, always hydrated, without it */
+  persist: PersistApi<S, ExposedState<S, Co, Sl>>;
+  /** React hook — false until persisted state has been hydrated */
+  useHydrated: () => boolean;
 }
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { create } from '../src/create';
+import { createSlice } from '../src/slice';
+import type { ActionEvent } from '../src/types';
+
+const createStore = () =>
+  create({
+    state: { count: 0 },
+    actions: {
+      add(state, n: number) { state.count += n; },
+    },
+    computed: {
+      doubled: (state) => state.count * 2,
+    },
+    effects: {
+      async load({ set }, n: number) {
+        set((s) => { s.count = n; });
+        return n * 10;
+      },
+      async fail() {
+        throw new Error('nope');
+      },
+    },
+  });
+
+describe('onAction', () => {
+  it('should report actions with their args and states', () => {
+    const useStore = createStore();
+    const events: ActionEvent[] = [];
+    useStore.onAction((event) => events.push(event));
+
+    useStore.actions.add(2);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: 'action',
+      name: 'add',
+      args: [2],
+      prevState: { count: 0, doubled: 0 },
+      nextState: { count: 2, doubled: 4 },
+    });
+    expect(events[0].durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should report setState calls', () => {
+    const useStore = createStore();
+    const listener = vi.fn();
+    useStore.onAction(listener);
+
+    useStore.setState({ count: 7 });
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'setState',
+      name: 'setState',
+      args: [{ count: 7 }],
+      nextState: expect.objectContaining({ count: 7 }),
+    }));
+  });
+
+  it('should report effect start and end with the result', async () => {
+    const useStore = createStore();
+    const events: ActionEvent[] = [];
+    useStore.onAction((event) => events.push(event));
+
+    await useStore.effects.load(3);
+
+    expect(events.map((e) => [e.type, e.phase])).toEqual([['effect', 'start'], ['effect', 'end']]);
+    expect(events[0]).toMatchObject({ name: 'load', args: [3], prevState: { count: 0 }, nextState: { count: 0 } });
+    expect(events[1]).toMatchObject({ name: 'load', result: 30, prevState: { count: 0 }, nextState: { count: 3 } });
+    expect(events[1].error).toBeUndefined();
+  });
+
+  it('should report effect errors on end', async () => {
+    const useStore = createStore();
+    const events: ActionEvent[] = [];
+    useStore.onAction((event) => events.push(event));
+
+    await expect(useStore.effects.fail()).rejects.toThrow('nope');
+
+    expect(events[1]).toMatchObject({ type: 'effect', phase: 'end', name: 'fail' });
+    expect(events[1].error?.message).toBe('nope');
+    expect('result' in events[1]).toBe(false);
+  });
+
+  it('should report the latest computed values inside a batch', () => {
+    const useStore = createStore();
+    const events: ActionEvent[] = [];
+    useStore.onAction((event) => events.push(event));
+
+    useStore.batch(() => {
+      useStore.actions.add(1);
+      useStore.actions.add(1);
+    });
+
+    expect(events.map((e) => e.nextState.doubled)).toEqual([2, 4]);
+  });
+
+  it('should use namespaced names for slice actions', () => {
+    const useStore = create({
+      state: {},
+      slices: {
+        todos: createSlice({
+          state: { items: [] as string[] },
+          actions: { add(state, item: string) { state.items.push(item); } },
+        }),
+      },
+    });
+    const listener = vi.fn();
+    useStore.onAction(listener);
+
+    useStore.actions.todos.add('a');
+
+    expect(listener.mock.calls[0][0]).toMatchObject({ type: 'action', name: 'todos/add', args: ['a'] });
+  });
+
+  it('should stop reporting after unsubscribing', () => {
+    const useStore = createStore();
+    const listener = vi.fn();
+    const unsubscribe = useStore.onAction(listener);
+
+    unsubscribe();
+    useStore.actions.add(1);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { create } from '../src/create';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+};
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+describe('async computed', () => {
+  it('should expose loading and then the resolved value', async () => {
+    const useStore = create({
+      state: { items: [3, 1, 2] },
+      computed: {
+        sorted: async (state) => [...state.items].sort(),
+      },
+    });
+
+    expect(useStore.getState().sorted).toEqual({ value: undefined, loading: true, error: null });
+
+    await flush();
+    expect(useStore.getState().sorted).toEqual({ value: [1, 2, 3], loading: false, error: null });
+  });
+
+  it('should notify subscribers when the value resolves', async () => {
+    const useStore = create({
+      state: { n: 1 },
+      computed: { remote: async (state) => state.n * 10 },
+    });
+    const callback = vi.fn();
+    useStore.subscribe((s) => s.remote.value, callback);
+
+    await flush();
+
+    expect(callback).toHaveBeenCalledWith(10, undefined);
+  });
+
+  it('should expose errors and keep the previous value', async () => {
+    const useStore = create({
+      state: { fail: false, n: 1 },
+      computed: {
+        lookup: async (state) => {
+          if (state.fail) throw new Error('lookup failed');
+          return state.n;
+        },
+      },
+    });
+    await flush();
+
+    useStore.setState({ fail: true });
+    expect(useStore.getState().lookup).toEqual({ value: 1, loading: true, error: null });
+
+    await flush();
+    expect(useStore.getState().lookup.value).toBe(1);
+    expect(useStore.getState().lookup.error?.message).toBe('lookup failed');
+    expect(useStore.getState().lookup.loading).toBe(false);
+  });
+
+  it('should only rerun when tracked dependencies change', async () => {
+    const fn = vi.fn(async (state: any) => state.query.toUpperCase());
+    const useStore = create({
+      state: { query: 'a', other: 0 },
+      computed: { upper: fn },
+    });
+    await flush();
+
+    useStore.setState({ other: 1 });
+    await flush();
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    useStore.setState({ query: 'b' });
+    await flush();
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(useStore.getState().upper.value).toBe('B');
+  });
+
+  it('should discard stale results', async () => {
+    const runs: Array<ReturnType<typeof deferred<string>>> = [];
+    const useStore = create({
+      state: { query: 'a' },
+      computed: {
+        result: (state) => {
+          const run = deferred<string>();
+          runs.push(run);
+          void state.query;
+          return run.promise;
+        },
+      },
+    });
+
+    useStore.setState({ query: 'b' });
+    runs[1].resolve('b');
+    await flush();
+    runs[0].resolve('a'); // older run settles last
+    await flush();
+
+    expect(useStore.getState().result.value).toBe('b');
+  });
+
+  it('should recompute downstream computed values when it resolves', async () => {
+    const useStore = create({
+      state: { n: 2 },
+      computed: {
+        squared: async (state) => state.n * state.n,
+        label: (state) => `value: ${state.squared.value ?? '…'}`,
+      },
+    });
+
+    expect(useStore.getState().label).toBe('value: …');
+
+    await flush();
+    expect(useStore.getState().label).toBe('value: 4');
+  });
+});
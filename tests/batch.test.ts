@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest';
+import { create } from '../src/create';
+import type { StateStorage } from '../src/types';
+
+const createMockStorage = (): StateStorage & { store: Map<string, string> } => {
+  const store = new Map<string, string>();
+  return {
+    store,
+    getItem: (key) => store.get(key) ?? null,
+    setItem: vi.fn((key: string, val: string) => { store.set(key, val); }),
+    removeItem: (key) => store.delete(key),
+  };
+};
+
+describe('batch', () => {
+  it('should notify, recompute and persist once for many commits', () => {
+    const storage = createMockStorage();
+    let computeCount = 0;
+    const useStore = create({
+      state: { count: 0 },
+      actions: { inc(state) { state.count += 1; } },
+      computed: {
+        doubled: (state) => { computeCount++; return state.count * 2; },
+      },
+      persist: { name: 'batch-store', storage },
+    });
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+    computeCount = 0;
+
+    useStore.batch(() => {
+      useStore.actions.inc();
+      useStore.actions.inc();
+      useStore.setState((s) => { s.count += 3; });
+    });
+
+    expect(useStore.getState()).toEqual({ count: 5, doubled: 10 });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(computeCount).toBe(1);
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(storage.store.get('batch-store')!).state.count).toBe(5);
+  });
+
+  it('should let later calls see earlier changes inside the batch', () => {
+    const useStore = create({
+      state: { items: [] as string[] },
+      actions: { add(state, item: string) { state.items.push(item); } },
+      computed: { count: (state) => state.items.length },
+    });
+
+    const seen: number[] = [];
+    useStore.batch(() => {
+      useStore.actions.add('a');
+      seen.push(useStore.getState().count);
+      useStore.actions.add('b');
+      seen.push(useStore.getState().count);
+    });
+
+    expect(seen).toEqual([1, 2]);
+  });
+
+  it('should nest and only flush at the outermost batch', () => {
+    const useStore = create({ state: { a: 0, b: 0 } });
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+
+    useStore.batch(() => {
+      useStore.setState({ a: 1 });
+      useStore.batch(() => {
+        useStore.setState({ b: 1 });
+      });
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(useStore.getState()).toEqual({ a: 1, b: 1 });
+  });
+
+  it('should give selector subscribers the previous value from before the batch', () => {
+    const useStore = create({ state: { count: 0 } });
+    const callback = vi.fn();
+    useStore.subscribe((s) => s.count, callback);
+
+    useStore.batch(() => {
+      useStore.setState({ count: 1 });
+      useStore.setState({ count: 2 });
+    });
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith(2, 0);
+  });
+
+  it('should return the value of the callback', () => {
+    const useStore = create({ state: { count: 0 } });
+    expect(useStore.batch(() => 42)).toBe(42);
+  });
+
+  it('should not notify when nothing was committed', () => {
+    const useStore = create({ state: { count: 0 } });
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+
+    useStore.batch(() => {});
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should flush commits made before an error', () => {
+    const useStore = create({ state: { count: 0 } });
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+
+    expect(() => useStore.batch(() => {
+      useStore.setState({ count: 1 });
+      throw new Error('boom');
+    })).toThrow('boom');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(useStore.getState().count).toBe(1);
+  });
+
+  it('should record the batch as one undo step', () => {
+    const useStore = create({
+      state: { count: 0 },
+      actions: { inc(state) { state.count += 1; } },
+      history: true,
+    });
+
+    useStore.batch(() => {
+      useStore.actions.inc();
+      useStore.actions.inc();
+    });
+    useStore.history.undo();
+
+    expect(useStore.getState().count).toBe(0);
+  });
+
+  it('should run afterCommit once with the batch as a whole', () => {
+    const afterCommit = vi.fn();
+    const useStore = create({
+      state: { count: 0 },
+      actions: { inc(state) { state.count += 1; } },
+      middleware: [{ afterCommit }],
+    });
+
+    useStore.batch(() => {
+      useStore.actions.inc();
+      useStore.actions.inc();
+    });
+
+    expect(afterCommit).toHaveBeenCalledTimes(1);
+    const ctx = afterCommit.mock.calls[0][0];
+    expect(ctx.type).toBe('batch');
+    expect(ctx.prevState.count).toBe(0);
+    expect(ctx.nextState.count).toBe(2);
+  });
+});
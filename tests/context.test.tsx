@@ -0,0 +1,207 @@
+import { describe, it, expect, vi } from 'vitest';
+import React from 'react';
+import { render, screen, act, fireEvent } from '@testing-library/react';
+import { create } from '../src/create';
+import { createStoreContext } from '../src/context';
+import { createSlice } from '../src/slice';
+
+const createCounter = () =>
+  createStoreContext({
+    state: { count: 0, step: 1 },
+    actions: {
+      increment(state) { state.count += state.step; },
+    },
+    computed: {
+      doubled: (state) => state.count * 2,
+    },
+    queries: {
+      user: { fn: vi.fn(async (id: number) => ({ id })) },
+    },
+  });
+
+describe('createStoreContext', () => {
+  it('should give each Provider its own instance', () => {
+    const Counter = createCounter();
+
+    function Count({ id }: { id: string }) {
+      const count = Counter.useStore((s) => s.count);
+      const { actions } = Counter.useStoreApi();
+      return <button data-testid={id} onClick={() => actions.increment()}>{count}</button>;
+    }
+
+    render(
+      <>
+        <Counter.Provider><Count id="a" /></Counter.Provider>
+        <Counter.Provider><Count id="b" /></Counter.Provider>
+      </>,
+    );
+
+    fireEvent.click(screen.getByTestId('a'));
+    fireEvent.click(screen.getByTestId('a'));
+
+    expect(screen.getByTestId('a').textContent).toBe('2');
+    expect(screen.getByTestId('b').textContent).toBe('0');
+  });
+
+  it('should merge initialState overrides over the config state', () => {
+    const Counter = createCounter();
+
+    function Doubled() {
+      const state = Counter.useStore();
+      return <span data-testid="v">{state.count}:{state.step}:{state.doubled}</span>;
+    }
+
+    render(<Counter.Provider initialState={{ count: 5 }}><Doubled /></Counter.Provider>);
+    expect(screen.getByTestId('v').textContent).toBe('5:1:10');
+  });
+
+  it('should expose the instance through useStoreApi', () => {
+    const Counter = createCounter();
+    let api!: ReturnType<typeof Counter.useStoreApi>;
+
+    function Grab() {
+      api = Counter.useStoreApi();
+      return <span data-testid="v">{Counter.useStore((s) => s.count)}</span>;
+    }
+
+    render(<Counter.Provider><Grab /></Counter.Provider>);
+    act(() => { api.actions.increment(); });
+
+    expect(api.getState().count).toBe(1);
+    expect(screen.getByTestId('v').textContent).toBe('1');
+    expect(typeof api.queries.user).toBe('function');
+  });
+
+  it('should keep query caches per instance', () => {
+    const Counter = createCounter();
+    const apis: Array<ReturnType<typeof Counter.useStoreApi>> = [];
+
+    function Grab() {
+      apis.push(Counter.useStoreApi());
+      return null;
+    }
+
+    render(
+      <>
+        <Counter.Provider><Grab /></Counter.Provider>
+        <Counter.Provider><Grab /></Counter.Provider>
+      </>,
+    );
+
+    apis[0].queries.user.setQueryData([1], { id: 1 });
+    expect(apis[0].queries.user.getQueryData([1])).toEqual({ id: 1 });
+    expect(apis[1].queries.user.getQueryData([1])).toBeUndefined();
+  });
+
+  it('should override slice state', () => {
+    const Store = createStoreContext({
+      state: {},
+      slices: { todos: createSlice({ state: { items: ['a'] } }) },
+    });
+
+    function Items() {
+      return <span data-testid="v">{Store.useStore((s) => s.todos.items.join(','))}</span>;
+    }
+
+    render(<Store.Provider initialState={{ todos: { items: ['x', 'y'] } }}><Items /></Store.Provider>);
+    expect(screen.getByTestId('v').textContent).toBe('x,y');
+  });
+
+  it('should destroy the instance when the Provider unmounts', async () => {
+    const Counter = createCounter();
+    const stores: Array<ReturnType<typeof Counter.useStoreApi>> = [];
+    function Capture() {
+      stores.push(Counter.useStoreApi());
+      return null;
+    }
+
+    const { unmount } = render(<Counter.Provider><Capture /></Counter.Provider>);
+    const listener = vi.fn();
+    stores[0].subscribe(listener);
+    unmount();
+    await Promise.resolve();
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    stores[0].actions.increment();
+    expect(listener).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith('[zustand-immer-lite] "increment" was called after destroy(); the call is ignored.');
+    warn.mockRestore();
+  });
+
+  it('should keep the instance alive through StrictMode effect replays', async () => {
+    const Counter = createCounter();
+    function Count() {
+      const count = Counter.useStore((s) => s.count);
+      const { actions } = Counter.useStoreApi();
+      return <button data-testid="v" onClick={() => actions.increment()}>{count}</button>;
+    }
+
+    render(<React.StrictMode><Counter.Provider><Count /></Counter.Provider></React.StrictMode>);
+    await act(async () => { await Promise.resolve(); });
+    fireEvent.click(screen.getByTestId('v'));
+
+    expect(screen.getByTestId('v').textContent).toBe('1');
+  });
+
+  it('should set up only the instance StrictMode keeps', async () => {
+    const Settings = createStoreContext({
+      state: { theme: 'light' },
+      persist: { name: 'settings', sync: true },
+    });
+    const add = vi.spyOn(window, 'addEventListener');
+    const remove = vi.spyOn(window, 'removeEventListener');
+    const storageListeners = () =>
+      add.mock.calls.filter(([type]) => type === 'storage').length
+      - remove.mock.calls.filter(([type]) => type === 'storage').length;
+
+    const { unmount } = render(<React.StrictMode><Settings.Provider /></React.StrictMode>);
+    await act(async () => { await Promise.resolve(); });
+    expect(storageListeners()).toBe(1);
+
+    unmount();
+    await Promise.resolve();
+    expect(storageListeners()).toBe(0);
+    add.mockRestore();
+    remove.mockRestore();
+  });
+
+  it('should subscribe to dependency stores once it mounts', () => {
+    const useAuth = create({ state: { user: 'ann' } });
+    const subscribe = vi.spyOn(useAuth, 'subscribe');
+    const Greeting = createStoreContext({
+      state: {},
+      dependsOn: { auth: useAuth },
+      computed: {
+        greeting: (_state, { auth }) => `hi ${auth.user}`,
+      },
+    });
+    function Text() {
+      return <span data-testid="v">{Greeting.useStore((s) => s.greeting)}</span>;
+    }
+    function SetUserOnRender() {
+      // A change made after the instance was created, before it subscribed
+      useAuth.setState({ user: 'bob' });
+      return null;
+    }
+
+    render(<React.StrictMode><Greeting.Provider><SetUserOnRender /><Text /></Greeting.Provider></React.StrictMode>);
+
+    expect(subscribe).toHaveBeenCalledTimes(1);
+    expect(screen.getByTestId('v').textContent).toBe('hi bob');
+    act(() => useAuth.setState({ user: 'cy' }));
+    expect(screen.getByTestId('v').textContent).toBe('hi cy');
+  });
+
+  it('should throw outside its Provider', () => {
+    const Counter = createCounter();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    function Orphan() {
+      Counter.useStore();
+      return null;
+    }
+
+    expect(() => render(<Orphan />)).toThrow(/inside the store's <Provider>/);
+    error.mockRestore();
+  });
+});
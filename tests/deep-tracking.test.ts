@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+import { create } from '../src/create';
+
+const createSettings = (computedTracking: 'shallow' | 'deep' = 'deep') => {
+  const themeFn = vi.fn((state: any) => `theme-${state.settings.theme}`);
+  const useStore = create({
+    state: {
+      settings: { theme: 'light', fontSize: 14, layout: { sidebar: true } },
+      items: [{ id: 1, done: false }, { id: 2, done: true }],
+    },
+    actions: {
+      setFontSize(state, size: number) { state.settings.fontSize = size; },
+      setTheme(state, theme: string) { state.settings.theme = theme; },
+      toggleSidebar(state) { state.settings.layout.sidebar = !state.settings.layout.sidebar; },
+    },
+    computed: { themeClass: themeFn },
+    computedTracking,
+  });
+  return { useStore, themeFn };
+};
+
+describe('deep dependency tracking', () => {
+  it('should not recompute when a sibling of a read path changes', () => {
+    const { useStore, themeFn } = createSettings();
+
+    useStore.actions.setFontSize(16);
+    useStore.actions.toggleSidebar();
+
+    expect(themeFn).toHaveBeenCalledTimes(1);
+    expect(useStore.getState().themeClass).toBe('theme-light');
+  });
+
+  it('should recompute when a read path changes', () => {
+    const { useStore, themeFn } = createSettings();
+
+    useStore.actions.setTheme('dark');
+
+    expect(themeFn).toHaveBeenCalledTimes(2);
+    expect(useStore.getState().themeClass).toBe('theme-dark');
+  });
+
+  it('should keep the top-level mode with computedTracking: shallow', () => {
+    const { useStore, themeFn } = createSettings('shallow');
+
+    useStore.actions.setFontSize(16);
+
+    expect(themeFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should track arrays as a whole', () => {
+    const useStore = create({
+      state: { todos: [{ id: 1, done: false }], filter: 'all' },
+      actions: {
+        toggle(state, id: number) {
+          const todo = state.todos.find((t) => t.id === id);
+          if (todo) todo.done = !todo.done;
+        },
+      },
+      computed: {
+        doneCount: (state) => state.todos.filter((t: any) => t.done).length,
+      },
+      computedTracking: 'deep',
+    });
+
+    useStore.actions.toggle(1);
+
+    expect(useStore.getState().doneCount).toBe(1);
+  });
+
+  it('should return real state objects, not tracking proxies', () => {
+    const useStore = create({
+      state: { byId: { a: { name: 'A' }, b: { name: 'B' } }, settings: { theme: 'light' } },
+      actions: {
+        rename(state, id: 'a' | 'b', name: string) { state.byId[id].name = name; },
+      },
+      computed: {
+        list: (state) => Object.values(state.byId),
+        settingsRef: (state) => state.settings,
+        wrapped: (state) => ({ settings: state.settings }),
+      },
+      computedTracking: 'deep',
+    });
+    const { byId, settings } = useStore.getState();
+
+    expect(useStore.getState().list[0]).toBe(byId.a);
+    expect(useStore.getState().settingsRef).toBe(settings);
+    expect(useStore.getState().wrapped.settings).toBe(settings);
+
+    useStore.actions.rename('a', 'A2');
+    expect(useStore.getState().list[0].name).toBe('A2');
+  });
+
+  it('should recompute when a returned object is replaced', () => {
+    const useStore = create({
+      state: { settings: { theme: 'light' } },
+      actions: {
+        setTheme(state, theme: string) { state.settings.theme = theme; },
+      },
+      computed: {
+        settingsRef: (state) => state.settings,
+      },
+      computedTracking: 'deep',
+    });
+
+    useStore.actions.setTheme('dark');
+
+    expect(useStore.getState().settingsRef).toEqual({ theme: 'dark' });
+  });
+
+  it('should depend on the key set when iterating an object', () => {
+    const useStore = create({
+      state: { flags: { a: true } as Record<string, boolean> },
+      actions: {
+        addFlag(state, key: string) { state.flags[key] = false; },
+      },
+      computed: {
+        flagCount: (state) => Object.keys(state.flags).length,
+      },
+      computedTracking: 'deep',
+    });
+
+    useStore.actions.addFlag('b');
+
+    expect(useStore.getState().flagCount).toBe(2);
+  });
+
+  it('should track nested reads of other computed values', () => {
+    const useStore = create({
+      state: { n: 1 },
+      computed: {
+        info: (state) => ({ doubled: state.n * 2 }),
+        label: (state) => `x${state.info.doubled}`,
+      },
+      computedTracking: 'deep',
+    });
+
+    useStore.setState({ n: 2 });
+
+    expect(useStore.getState().label).toBe('x4');
+  });
+
+  it('should track top-level keys and pass real state objects by default', () => {
+    const a = { id: 'a' };
+    const themeFn = vi.fn((state: any) => state.settings.theme);
+    const useStore = create({
+      state: { items: [a], selected: a, settings: { theme: 'light', fontSize: 14 } },
+      actions: {
+        setFontSize(state, size: number) { state.settings.fontSize = size; },
+      },
+      computed: {
+        hasSelected: (state) => state.items.includes(state.selected),
+        firstIsSelected: (state) => state.items[0] === state.selected,
+        theme: themeFn,
+      },
+      selectors: {
+        isSelected: (state, index: number) => state.items[index] === state.selected,
+      },
+    });
+
+    expect(useStore.getState()).toMatchObject({ hasSelected: true, firstIsSelected: true });
+    expect(useStore.selectors.isSelected(0)).toBe(true);
+
+    useStore.actions.setFontSize(16);
+    expect(themeFn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi } from 'vitest';
+import { create } from '../src/create';
+
+const createAuth = () =>
+  create({
+    state: { user: null as string | null, theme: 'light' },
+    actions: {
+      login(state, user: string) { state.user = user; },
+      setTheme(state, theme: string) { state.theme = theme; },
+    },
+  });
+
+describe('dependsOn', () => {
+  it('should read dependency stores in computed values', () => {
+    const useAuth = createAuth();
+    const useTodos = create({
+      state: { items: ['a', 'b'] },
+      dependsOn: { auth: useAuth },
+      computed: {
+        title: (state, deps) => `${deps.auth.user ?? 'guest'} (${state.items.length})`,
+      },
+    });
+
+    expect(useTodos.getState().title).toBe('guest (2)');
+  });
+
+  it('should recompute and notify when a dependency store changes', () => {
+    const useAuth = createAuth();
+    const useTodos = create({
+      state: { items: ['a'] },
+      dependsOn: { auth: useAuth },
+      computed: {
+        owner: (_state, deps) => deps.auth.user,
+      },
+    });
+    const listener = vi.fn();
+    useTodos.subscribe(listener);
+
+    useAuth.actions.login('ada');
+
+    expect(useTodos.getState().owner).toBe('ada');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not notify when no computed value changed', () => {
+    const useAuth = createAuth();
+    const useTodos = create({
+      state: { items: ['a'] },
+      dependsOn: { auth: useAuth },
+      computed: {
+        owner: (_state, deps) => deps.auth.user,
+      },
+    });
+    const before = useTodos.getState();
+    const listener = vi.fn();
+    useTodos.subscribe(listener);
+
+    useAuth.actions.setTheme('dark');
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(useTodos.getState()).toBe(before);
+  });
+
+  it('should only recompute computed values that read the changed store', () => {
+    const useAuth = createAuth();
+    const count = vi.fn((state: { items: string[] }) => state.items.length);
+    const useTodos = create({
+      state: { items: ['a'] },
+      dependsOn: { auth: useAuth },
+      computed: {
+        count,
+        owner: (_state, deps) => deps.auth.user,
+      },
+    });
+    count.mockClear();
+
+    useAuth.actions.login('ada');
+
+    expect(useTodos.getState().owner).toBe('ada');
+    expect(count).not.toHaveBeenCalled();
+  });
+
+  it('should chain through several stores', () => {
+    const useAuth = createAuth();
+    const useProfile = create({
+      state: { suffix: '!' },
+      dependsOn: { auth: useAuth },
+      computed: {
+        greeting: (state, deps) => `hi ${deps.auth.user}${state.suffix}`,
+      },
+    });
+    const useHeader = create({
+      state: {},
+      dependsOn: { profile: useProfile },
+      computed: {
+        text: (_state, deps) => deps.profile.greeting.toUpperCase(),
+      },
+    });
+
+    useAuth.actions.login('ada');
+    expect(useHeader.getState().text).toBe('HI ADA!');
+  });
+
+  it('should recompute once at the end of a batch', () => {
+    const useAuth = createAuth();
+    const useTodos = create({
+      state: { items: ['a'] },
+      dependsOn: { auth: useAuth },
+      computed: {
+        owner: (_state, deps) => deps.auth.user,
+      },
+    });
+    const listener = vi.fn();
+    useTodos.subscribe(listener);
+
+    useTodos.batch(() => {
+      useAuth.actions.login('ada');
+      expect(useTodos.getState().owner).toBe('ada');
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should expose dependency stores to effects', async () => {
+    const useAuth = createAuth();
+    const useTodos = create({
+      state: { owner: '' },
+      dependsOn: { auth: useAuth },
+      effects: {
+        async claim({ set, deps }) {
+          set({ owner: deps.auth.user });
+        },
+      },
+    });
+
+    useAuth.actions.login('ada');
+    await useTodos.effects.claim();
+    expect(useTodos.getState().owner).toBe('ada');
+  });
+
+  it('should detect cycles between stores instead of recursing', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const useA = create({ state: { n: 0 }, actions: { bump(state) { state.n += 1; } } });
+    const useB = create({
+      state: {},
+      dependsOn: { a: useA },
+      computed: { n: (_state, deps) => deps.a.n },
+    });
+    // Feed B back into A, closing the loop a → b → a
+    const useC = create({
+      state: {},
+      dependsOn: { b: useB },
+      computed: { n: (_state, deps) => deps.b.n },
+    });
+    useC.subscribe(() => { useA.actions.bump(); });
+
+    useA.actions.bump();
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('circular store dependency (a → b → a)'));
+    expect(useA.getState().n).toBeGreaterThan(1);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import React from 'react';
+import { render, act } from '@testing-library/react';
+import { create } from '../src/create';
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+const createStore = (fetchUser = vi.fn(async (id: number) => ({ id }))) => {
+  const source = create({ state: { factor: 2 } });
+  const signals: AbortSignal[] = [];
+  const useStore = create({
+    state: { count: 0, result: '' },
+    actions: {
+      increment(state) { state.count += 1; },
+    },
+    computed: {
+      scaled: (state, deps) => state.count * deps.source.factor,
+    },
+    effects: {
+      load: async ({ set, signal }) => {
+        signals.push(signal);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        set({ result: 'loaded' });
+      },
+      search: {
+        fn: async ({ set }, q: string) => { set({ result: q }); },
+        concurrency: 'debounce' as const,
+        wait: 50,
+      },
+    },
+    queries: {
+      user: { fn: fetchUser, refetchInterval: 100 },
+    },
+    dependsOn: { source },
+  });
+  return { useStore, source, signals, fetchUser };
+};
+
+describe('destroy', () => {
+  it('should remove every listener', () => {
+    const { useStore } = createStore();
+    const listener = vi.fn();
+    const onPatch = vi.fn();
+    const onAction = vi.fn();
+    useStore.subscribe(listener);
+    useStore.subscribePatches(onPatch);
+    useStore.onAction(onAction);
+
+    useStore.destroy();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    useStore.actions.increment();
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(onPatch).not.toHaveBeenCalled();
+    expect(onAction).not.toHaveBeenCalled();
+  });
+
+  it('should ignore and warn about later actions and setState', () => {
+    const { useStore } = createStore();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    useStore.destroy();
+
+    useStore.actions.increment();
+    useStore.setState({ count: 5 });
+
+    expect(useStore.getState().count).toBe(0);
+    expect(warn).toHaveBeenCalledWith('[zustand-immer-lite] "increment" was called after destroy(); the call is ignored.');
+    expect(warn).toHaveBeenCalledWith('[zustand-immer-lite] "setState" was called after destroy(); the call is ignored.');
+  });
+
+  it('should abort in-flight effects and drop pending calls', async () => {
+    vi.useFakeTimers();
+    const { useStore, signals } = createStore();
+
+    const loading = useStore.effects.load();
+    const searching = useStore.effects.search('q');
+    useStore.destroy();
+
+    expect(signals[0].aborted).toBe(true);
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(searching).resolves.toBeUndefined();
+    await loading;
+    expect(useStore.getState().result).toBe('');
+  });
+
+  it('should warn about effect calls after destroy', async () => {
+    const { useStore, signals } = createStore();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    useStore.destroy();
+
+    await useStore.effects.load();
+
+    expect(signals).toHaveLength(0);
+    expect(warn).toHaveBeenCalledWith('[zustand-immer-lite] "load" was called after destroy(); the call is ignored.');
+  });
+
+  it('should stop refetchInterval timers and clear query caches', async () => {
+    vi.useFakeTimers();
+    const { useStore, fetchUser } = createStore();
+
+    function User() {
+      const { data } = useStore.queries.user(1);
+      return <span>{data?.id}</span>;
+    }
+    render(<User />);
+    await act(async () => { await vi.advanceTimersByTimeAsync(250); });
+    const calls = fetchUser.mock.calls.length;
+    expect(calls).toBeGreaterThan(1);
+
+    act(() => { useStore.destroy(); });
+    await act(async () => { await vi.advanceTimersByTimeAsync(500); });
+
+    expect(fetchUser).toHaveBeenCalledTimes(calls);
+    expect(useStore.queries.user.getQueryData([1])).toBeUndefined();
+  });
+
+  it('should discard query results that arrive after destroy', async () => {
+    let resolve!: (user: { id: number }) => void;
+    const { useStore } = createStore(vi.fn(() => new Promise<{ id: number }>((r) => { resolve = r; })));
+
+    const prefetching = useStore.queries.user.prefetch(1);
+    useStore.destroy();
+    resolve({ id: 1 });
+    await prefetching;
+
+    expect(useStore.queries.user.getQueryData([1])).toBeUndefined();
+  });
+
+  it('should stop following dependency stores', () => {
+    const { useStore, source } = createStore();
+    expect(useStore.getState().scaled).toBe(0);
+    useStore.destroy();
+
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+    source.setState({ factor: 3 });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should be safe to call twice', () => {
+    const { useStore } = createStore();
+    useStore.destroy();
+    expect(() => useStore.destroy()).not.toThrow();
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { create } from '../src/create';
+
+const createMockExtension = () => {
+  let listener: ((message: any) => void) | undefined;
+  const connection = {
+    init: vi.fn(),
+    send: vi.fn(),
+    subscribe: vi.fn((fn: (message: any) => void) => { listener = fn; }),
+  };
+  return {
+    connect: vi.fn(() => connection),
+    connection,
+    dispatch: (message: any) => listener?.(message),
+  };
+};
+
+const createTodos = () =>
+  create({
+    state: { items: [] as string[] },
+    actions: {
+      add(state, item: string) { state.items.push(item); },
+    },
+    effects: {
+      async load({ set }) {
+        set({ items: ['loaded'] });
+      },
+    },
+    computed: {
+      count: (state) => state.items.length,
+    },
+    devtools: { name: 'todos' },
+  });
+
+describe('devtools', () => {
+  let extension: ReturnType<typeof createMockExtension>;
+
+  beforeEach(() => {
+    extension = createMockExtension();
+    (window as any).__REDUX_DEVTOOLS_EXTENSION__ = extension;
+  });
+
+  afterEach(() => {
+    delete (window as any).__REDUX_DEVTOOLS_EXTENSION__;
+  });
+
+  it('should connect with the store name and send the initial state', () => {
+    createTodos();
+
+    expect(extension.connect).toHaveBeenCalledWith({ name: 'todos' });
+    expect(extension.connection.init).toHaveBeenCalledWith({ items: [], count: 0 });
+  });
+
+  it('should send actions labelled with their name and args', () => {
+    const useStore = createTodos();
+
+    useStore.actions.add('a');
+
+    expect(extension.connection.send).toHaveBeenCalledWith(
+      { type: 'add', args: ['a'] },
+      { items: ['a'], count: 1 },
+    );
+  });
+
+  it('should send effect set calls labelled with the effect name', async () => {
+    const useStore = createTodos();
+
+    await useStore.effects.load();
+
+    expect(extension.connection.send).toHaveBeenCalledWith(
+      { type: 'load' },
+      { items: ['loaded'], count: 1 },
+    );
+  });
+
+  it('should commit the state on JUMP_TO_STATE without sending it back', () => {
+    const useStore = createTodos();
+    useStore.actions.add('a');
+    useStore.actions.add('b');
+    extension.connection.send.mockClear();
+
+    extension.dispatch({
+      type: 'DISPATCH',
+      payload: { type: 'JUMP_TO_STATE' },
+      state: JSON.stringify({ items: ['a'], count: 1 }),
+    });
+
+    expect(useStore.getState()).toEqual({ items: ['a'], count: 1 });
+    expect(extension.connection.send).not.toHaveBeenCalled();
+  });
+
+  it('should commit the state on JUMP_TO_ACTION', () => {
+    const useStore = createTodos();
+    useStore.actions.add('a');
+
+    extension.dispatch({
+      type: 'DISPATCH',
+      payload: { type: 'JUMP_TO_ACTION' },
+      state: JSON.stringify({ items: [], count: 0 }),
+    });
+
+    expect(useStore.getState()).toEqual({ items: [], count: 0 });
+  });
+
+  it('should not record time travel in the undo history', () => {
+    const useStore = create({
+      state: { a: 1 },
+      actions: { set(state, a: number) { state.a = a; } },
+      history: true,
+      devtools: { name: 'counter' },
+    });
+    useStore.actions.set(2);
+    useStore.actions.set(3);
+    useStore.history.undo();
+
+    extension.dispatch({
+      type: 'DISPATCH',
+      payload: { type: 'JUMP_TO_STATE' },
+      state: JSON.stringify({ a: 1 }),
+    });
+
+    expect(useStore.getState().a).toBe(1);
+    expect(useStore.history.canUndo).toBe(true);
+    useStore.history.redo();
+    expect(useStore.getState().a).toBe(3);
+  });
+
+  it('should commit the last computed state on IMPORT_STATE', () => {
+    const useStore = createTodos();
+    const nextLiftedState = {
+      computedStates: [{ state: { items: [] } }, { state: { items: ['x', 'y'], count: 2 } }],
+    };
+
+    extension.dispatch({ type: 'DISPATCH', payload: { type: 'IMPORT_STATE', nextLiftedState } });
+
+    expect(useStore.getState()).toEqual({ items: ['x', 'y'], count: 2 });
+    expect(extension.connection.send).toHaveBeenCalledWith(null, nextLiftedState);
+  });
+
+  it('should do nothing when the extension is not installed', () => {
+    delete (window as any).__REDUX_DEVTOOLS_EXTENSION__;
+    const useStore = createTodos();
+
+    useStore.actions.add('a');
+
+    expect(useStore.getState().items).toEqual(['a']);
+    expect(extension.connect).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { create } from '../src/create';
+import type { EffectConcurrency } from '../src/types';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => { resolve = res; });
+  return { promise, resolve };
+};
+
+const createSearch = (concurrency?: EffectConcurrency, wait?: number) => {
+  const calls: Array<{ query: string; signal: AbortSignal; done: ReturnType<typeof deferred<string>> }> = [];
+  const useStore = create({
+    state: { results: '' },
+    effects: {
+      search: {
+        fn: async ({ set, signal }, query: string) => {
+          const done = deferred<string>();
+          calls.push({ query, signal, done });
+          const results = await done.promise;
+          set({ results });
+          return results;
+        },
+        concurrency,
+        wait,
+      },
+    },
+  });
+  return { useStore, calls };
+};
+
+describe('effect concurrency', () => {
+  it('should run every call with takeEvery (default)', async () => {
+    const { useStore, calls } = createSearch();
+
+    const a = useStore.effects.search('a');
+    const b = useStore.effects.search('b');
+    calls[1].done.resolve('B');
+    calls[0].done.resolve('A');
+
+    expect(await a).toBe('A');
+    expect(await b).toBe('B');
+    expect(calls.every((c) => !c.signal.aborted)).toBe(true);
+    expect(useStore.getState().results).toBe('A');
+  });
+
+  it('should still accept plain effect functions', async () => {
+    const useStore = create({
+      state: { n: 0 },
+      effects: {
+        async bump({ set, signal }) {
+          expect(signal.aborted).toBe(false);
+          set((s) => { s.n += 1; });
+        },
+      },
+    });
+
+    await useStore.effects.bump();
+    expect(useStore.getState().n).toBe(1);
+  });
+
+  it('should abort the previous run and ignore its set with takeLatest', async () => {
+    const { useStore, calls } = createSearch('takeLatest');
+
+    const a = useStore.effects.search('a');
+    const b = useStore.effects.search('b');
+    expect(calls[0].signal.aborted).toBe(true);
+    expect(calls[1].signal.aborted).toBe(false);
+
+    calls[1].done.resolve('B');
+    await b;
+    calls[0].done.resolve('A');
+    await a;
+
+    expect(useStore.getState().results).toBe('B');
+  });
+
+  it('should ignore calls while a run is in progress with exhaust', async () => {
+    const { useStore, calls } = createSearch('exhaust');
+
+    const a = useStore.effects.search('a');
+    const b = useStore.effects.search('b');
+    expect(calls).toHaveLength(1);
+
+    calls[0].done.resolve('A');
+    expect(await b).toBe('A');
+    await a;
+
+    useStore.effects.search('c');
+    expect(calls).toHaveLength(2);
+  });
+
+  describe('with timers', () => {
+    beforeEach(() => { vi.useFakeTimers(); });
+    afterEach(() => { vi.useRealTimers(); });
+
+    it('should only run the last call within the wait with debounce', async () => {
+      const { useStore, calls } = createSearch('debounce', 300);
+
+      const a = useStore.effects.search('a');
+      vi.advanceTimersByTime(200);
+      const b = useStore.effects.search('ab');
+      vi.advanceTimersByTime(200);
+      expect(calls).toHaveLength(0);
+
+      vi.advanceTimersByTime(100);
+      expect(calls).toHaveLength(1);
+      expect(calls[0].query).toBe('ab');
+
+      calls[0].done.resolve('AB');
+      expect(await a).toBe('AB');
+      expect(await b).toBe('AB');
+    });
+
+    it('should abort an in-flight debounced run when the next one starts', () => {
+      const { useStore, calls } = createSearch('debounce', 100);
+
+      useStore.effects.search('a');
+      vi.advanceTimersByTime(100);
+      useStore.effects.search('b');
+      vi.advanceTimersByTime(100);
+
+      expect(calls).toHaveLength(2);
+      expect(calls[0].signal.aborted).toBe(true);
+    });
+
+    it('should run at most once per wait with throttle, then the last call', async () => {
+      const { useStore, calls } = createSearch('throttle', 300);
+
+      useStore.effects.search('a');
+      expect(calls).toHaveLength(1);
+
+      useStore.effects.search('b');
+      const c = useStore.effects.search('c');
+      expect(calls).toHaveLength(1);
+
+      vi.advanceTimersByTime(300);
+      expect(calls).toHaveLength(2);
+      expect(calls[1].query).toBe('c');
+      expect(calls[0].signal.aborted).toBe(true);
+
+      calls[1].done.resolve('C');
+      expect(await c).toBe('C');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import React from 'react';
+import { render, screen, act } from '@testing-library/react';
+import { create } from '../src/create';
+
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+};
+
+const createTodos = () => {
+  const pending: Array<ReturnType<typeof deferred<string[]>>> = [];
+  const useStore = create({
+    state: { items: [] as string[] },
+    effects: {
+      async fetchTodos({ set }) {
+        const run = deferred<string[]>();
+        pending.push(run);
+        const items = await run.promise;
+        set({ items });
+        return items.length;
+      },
+      search: {
+        fn: async (_helpers, query: string) => {
+          const run = deferred<string[]>();
+          pending.push(run);
+          await run.promise;
+          return query;
+        },
+        concurrency: 'takeLatest' as const,
+      },
+    },
+  });
+  return { useStore, pending };
+};
+
+describe('effect status', () => {
+  it('should start idle', () => {
+    const { useStore } = createTodos();
+    expect(useStore.getEffectStatus('fetchTodos')).toEqual({
+      running: false, error: null, lastResult: undefined, callCount: 0,
+    });
+  });
+
+  it('should track running, lastResult and callCount', async () => {
+    const { useStore, pending } = createTodos();
+
+    const promise = useStore.effects.fetchTodos();
+    expect(useStore.getEffectStatus('fetchTodos').running).toBe(true);
+    expect(useStore.getEffectStatus('fetchTodos').callCount).toBe(1);
+
+    pending[0].resolve(['a', 'b']);
+    await promise;
+
+    expect(useStore.getEffectStatus('fetchTodos')).toEqual({
+      running: false, error: null, lastResult: 2, callCount: 1,
+    });
+  });
+
+  it('should track errors and clear them on the next run', async () => {
+    const { useStore, pending } = createTodos();
+
+    const failed = useStore.effects.fetchTodos();
+    pending[0].reject(new Error('offline'));
+    await expect(failed).rejects.toThrow('offline');
+    expect(useStore.getEffectStatus('fetchTodos').error?.message).toBe('offline');
+
+    useStore.effects.fetchTodos();
+    expect(useStore.getEffectStatus('fetchTodos').error).toBeNull();
+  });
+
+  it('should stay running while overlapping runs are in progress', async () => {
+    const { useStore, pending } = createTodos();
+
+    const a = useStore.effects.fetchTodos();
+    const b = useStore.effects.fetchTodos();
+    pending[0].resolve(['a']);
+    await a;
+    expect(useStore.getEffectStatus('fetchTodos').running).toBe(true);
+
+    pending[1].resolve(['a', 'b']);
+    await b;
+    expect(useStore.getEffectStatus('fetchTodos').running).toBe(false);
+    expect(useStore.getEffectStatus('fetchTodos').callCount).toBe(2);
+  });
+
+  it('should ignore the result of a superseded run', async () => {
+    const { useStore, pending } = createTodos();
+
+    const a = useStore.effects.search('a');
+    const b = useStore.effects.search('b');
+    pending[1].resolve([]);
+    await b;
+    pending[0].resolve([]);
+    await a;
+
+    expect(useStore.getEffectStatus('search').lastResult).toBe('b');
+  });
+
+  it('should re-render with useEffectStatus', async () => {
+    const { useStore, pending } = createTodos();
+
+    function Status() {
+      const { running, lastResult } = useStore.useEffectStatus('fetchTodos');
+      return <span data-testid="v">{running ? 'Loading' : `Done: ${lastResult ?? '-'}`}</span>;
+    }
+
+    render(<Status />);
+    expect(screen.getByTestId('v').textContent).toBe('Done: -');
+
+    let promise!: Promise<number>;
+    act(() => { promise = useStore.effects.fetchTodos(); });
+    expect(screen.getByTestId('v').textContent).toBe('Loading');
+
+    await act(async () => {
+      pending[0].resolve(['x']);
+      await promise;
+    });
+    expect(screen.getByTestId('v').textContent).toBe('Done: 1');
+  });
+});
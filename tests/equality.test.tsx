@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from 'vitest';
+import React from 'react';
+import { render, screen, act } from '@testing-library/react';
+import { create } from '../src/create';
+import { shallow, deep, useShallow } from '../src/equality';
+
+const createStore = () =>
+  create({
+    state: { a: 1, b: 2, other: 0, nested: { list: [1, 2] } },
+    actions: {
+      setA(state, a: number) { state.a = a; },
+      bumpOther(state) { state.other += 1; },
+      copyNested(state) { state.nested = { list: [...state.nested.list] }; },
+    },
+  });
+
+describe('shallow', () => {
+  it('should compare one level deep', () => {
+    expect(shallow({ a: 1, b: 'x' }, { a: 1, b: 'x' })).toBe(true);
+    expect(shallow({ a: 1 }, { a: 2 })).toBe(false);
+    expect(shallow({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+    expect(shallow([1, 2], [1, 2])).toBe(true);
+    expect(shallow({ a: [1] }, { a: [1] })).toBe(false);
+    expect(shallow(new Map([['k', 1]]), new Map([['k', 1]]))).toBe(true);
+    expect(shallow(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+    expect(shallow([1], { 0: 1 } as any)).toBe(false);
+    expect(shallow(null, null)).toBe(true);
+    expect(shallow(null, {} as any)).toBe(false);
+  });
+});
+
+describe('deep', () => {
+  it('should compare at every depth', () => {
+    expect(deep({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(deep({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false);
+    expect(deep(new Date(5), new Date(5))).toBe(true);
+    expect(deep(new Map([['k', { x: 1 }]]), new Map([['k', { x: 1 }]]))).toBe(true);
+    expect(deep({ a: undefined }, { b: undefined } as any)).toBe(false);
+  });
+
+  it('should compare Set members structurally', () => {
+    expect(deep(new Set([{ id: 1 }, { id: 2 }]), new Set([{ id: 2 }, { id: 1 }]))).toBe(true);
+    expect(deep(new Set([{ id: 1 }, { id: 1 }]), new Set([{ id: 1 }, { id: 2 }]))).toBe(false);
+    expect(deep(new Set([{ id: 1 }]), new Set([{ id: 2 }]))).toBe(false);
+    expect(shallow(new Set([{ id: 1 }]), new Set([{ id: 1 }]))).toBe(false);
+  });
+});
+
+describe('useStore(selector, equalityFn)', () => {
+  it('should skip re-renders while the equality function holds', () => {
+    const useStore = createStore();
+    let renders = 0;
+
+    function Pair() {
+      renders++;
+      const { a, b } = useStore((s) => ({ a: s.a, b: s.b }), shallow);
+      return <span data-testid="v">{a + b}</span>;
+    }
+
+    render(<Pair />);
+    act(() => { useStore.actions.bumpOther(); });
+    expect(renders).toBe(1);
+
+    act(() => { useStore.actions.setA(5); });
+    expect(renders).toBe(2);
+    expect(screen.getByTestId('v').textContent).toBe('7');
+  });
+
+  it('should accept deep for nested selections', () => {
+    const useStore = createStore();
+    let renders = 0;
+
+    function List() {
+      renders++;
+      const nested = useStore((s) => s.nested, deep);
+      return <span>{nested.list.length}</span>;
+    }
+
+    render(<List />);
+    act(() => { useStore.actions.copyNested(); });
+    expect(renders).toBe(1);
+  });
+
+  it('should cache selectors that return undefined', () => {
+    const useStore = createStore();
+    const selector = vi.fn((s: { a: number }) => (s.a > 10 ? s.a : undefined));
+
+    function Maybe() {
+      const value = useStore(selector);
+      return <span>{value ?? 'none'}</span>;
+    }
+
+    render(<Maybe />);
+    const calls = selector.mock.calls.length;
+
+    // Reads with an unchanged state reuse the cached undefined
+    act(() => { useStore.setState((s) => s); });
+    expect(selector.mock.calls.length).toBe(calls);
+  });
+});
+
+describe('useShallow', () => {
+  it('should keep the previous result while shallow-equal', () => {
+    const useStore = createStore();
+    let renders = 0;
+
+    function Pair() {
+      renders++;
+      const [a, b] = useStore(useShallow((s) => [s.a, s.b]));
+      return <span data-testid="v">{a + b}</span>;
+    }
+
+    render(<Pair />);
+    act(() => { useStore.actions.bumpOther(); });
+    expect(renders).toBe(1);
+
+    act(() => { useStore.actions.setA(3); });
+    expect(screen.getByTestId('v').textContent).toBe('5');
+    expect(renders).toBe(2);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from 'vitest';
+import { create } from '../src/create';
+import type { StateStorage } from '../src/types';
+
+const createMockStorage = (): StateStorage & { store: Map<string, string> } => {
+  const store = new Map<string, string>();
+  return {
+    store,
+    getItem: (key) => store.get(key) ?? null,
+    setItem: (key, val) => store.set(key, val),
+    removeItem: (key) => store.delete(key),
+  };
+};
+
+const createCounter = (history: boolean | { limit?: number } = true) =>
+  create({
+    state: { count: 0, items: [] as string[] },
+    actions: {
+      inc(state) { state.count += 1; },
+      add(state, item: string) { state.items.push(item); },
+    },
+    history,
+  });
+
+describe('history', () => {
+  it('should undo and redo actions', () => {
+    const useStore = createCounter();
+
+    useStore.actions.inc();
+    useStore.actions.add('a');
+    expect(useStore.getState()).toEqual({ count: 1, items: ['a'] });
+
+    useStore.history.undo();
+    expect(useStore.getState()).toEqual({ count: 1, items: [] });
+
+    useStore.history.undo();
+    expect(useStore.getState()).toEqual({ count: 0, items: [] });
+
+    useStore.history.redo();
+    useStore.history.redo();
+    expect(useStore.getState()).toEqual({ count: 1, items: ['a'] });
+  });
+
+  it('should record setState (partial and Immer updater)', () => {
+    const useStore = createCounter();
+
+    useStore.setState({ count: 5 });
+    useStore.setState((s) => { s.items.push('x'); });
+
+    useStore.history.undo();
+    expect(useStore.getState()).toEqual({ count: 5, items: [] });
+
+    useStore.history.undo();
+    expect(useStore.getState()).toEqual({ count: 0, items: [] });
+  });
+
+  it('should expose canUndo and canRedo', () => {
+    const useStore = createCounter();
+    expect(useStore.history.canUndo).toBe(false);
+    expect(useStore.history.canRedo).toBe(false);
+
+    useStore.actions.inc();
+    expect(useStore.history.canUndo).toBe(true);
+
+    useStore.history.undo();
+    expect(useStore.history.canUndo).toBe(false);
+    expect(useStore.history.canRedo).toBe(true);
+  });
+
+  it('should drop the redo stack on a new commit', () => {
+    const useStore = createCounter();
+
+    useStore.actions.inc();
+    useStore.history.undo();
+    useStore.actions.add('b');
+
+    expect(useStore.history.canRedo).toBe(false);
+  });
+
+  it('should respect the limit', () => {
+    const useStore = createCounter({ limit: 2 });
+
+    useStore.actions.inc();
+    useStore.actions.inc();
+    useStore.actions.inc();
+
+    useStore.history.undo();
+    useStore.history.undo();
+    useStore.history.undo(); // no-op, oldest step was dropped
+    expect(useStore.getState().count).toBe(1);
+  });
+
+  it('should group several commits into one undo step', () => {
+    const useStore = createCounter();
+
+    useStore.history.group(() => {
+      useStore.actions.inc();
+      useStore.actions.add('a');
+      useStore.history.group(() => {
+        useStore.actions.add('b');
+      });
+    });
+    expect(useStore.getState()).toEqual({ count: 1, items: ['a', 'b'] });
+
+    useStore.history.undo();
+    expect(useStore.getState()).toEqual({ count: 0, items: [] });
+    expect(useStore.history.canUndo).toBe(false);
+
+    useStore.history.redo();
+    expect(useStore.getState()).toEqual({ count: 1, items: ['a', 'b'] });
+  });
+
+  it('should clear the history', () => {
+    const useStore = createCounter();
+
+    useStore.actions.inc();
+    useStore.history.clear();
+
+    expect(useStore.history.canUndo).toBe(false);
+    useStore.history.undo();
+    expect(useStore.getState().count).toBe(1);
+  });
+
+  it('should not record anything when history is not enabled', () => {
+    const useStore = create({
+      state: { count: 0 },
+      actions: { inc(state) { state.count += 1; } },
+    });
+
+    useStore.actions.inc();
+    expect(useStore.history.canUndo).toBe(false);
+  });
+
+  it('should recompute, notify and persist on undo', () => {
+    const storage = createMockStorage();
+    const useStore = create({
+      state: { count: 1 },
+      actions: { inc(state) { state.count += 1; } },
+      computed: { doubled: (state) => state.count * 2 },
+      persist: { name: 'history-store', storage },
+      history: true,
+    });
+    const listener = vi.fn();
+
+    useStore.actions.inc();
+    useStore.subscribe(listener);
+    useStore.history.undo();
+
+    expect(useStore.getState().doubled).toBe(2);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(storage.store.get('history-store')!).state.count).toBe(1);
+  });
+
+  it('should keep the entry in place when a middleware vetoes undo or redo', () => {
+    let veto: string | null = null;
+    const useStore = create({
+      state: { count: 0 },
+      actions: { inc(state) { state.count += 1; } },
+      middleware: [{ onCommit: (ctx, next) => { if (ctx.type !== veto) next(); } }],
+      history: true,
+    });
+    useStore.actions.inc();
+
+    veto = 'undo';
+    useStore.history.undo();
+    expect(useStore.getState().count).toBe(1);
+    expect(useStore.history.canUndo).toBe(true);
+    expect(useStore.history.canRedo).toBe(false);
+
+    veto = 'redo';
+    useStore.history.undo();
+    useStore.history.redo();
+    expect(useStore.getState().count).toBe(0);
+    expect(useStore.history.canUndo).toBe(false);
+    expect(useStore.history.canRedo).toBe(true);
+
+    veto = null;
+    useStore.history.redo();
+    expect(useStore.getState().count).toBe(1);
+    expect(useStore.history.canUndo).toBe(true);
+  });
+});
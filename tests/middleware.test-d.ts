@@ -0,0 +1,38 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import { create } from '../src/create';
+import type { StoreMiddleware } from '../src/types';
+
+type CounterState = { count: number };
+
+const logger: StoreMiddleware<CounterState> = {
+  init: (state) => state,
+  onCommit: (ctx, next) => next({ count: ctx.nextState.count }),
+};
+
+describe('middleware types', () => {
+  it('should accept middleware typed for the store state in a store with actions', () => {
+    const useStore = create({
+      state: { count: 0 },
+      actions: {
+        increment(state) { state.count += 1; },
+      },
+      middleware: [logger],
+    });
+
+    expectTypeOf(useStore.getState().count).toEqualTypeOf<number>();
+    expectTypeOf(useStore.actions.increment).toEqualTypeOf<() => void>();
+  });
+
+  it('should keep the store typed with inline middleware', () => {
+    const useStore = create({
+      state: { count: 0 },
+      actions: {
+        addBy(state, n: number) { state.count += n; },
+      },
+      middleware: [{ onCommit: (_ctx, next) => next() }],
+    });
+
+    expectTypeOf(useStore.getState().count).toEqualTypeOf<number>();
+    expectTypeOf(useStore.actions.addBy).parameters.toEqualTypeOf<[n: number]>();
+  });
+});
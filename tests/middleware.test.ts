@@ -0,0 +1,162 @@
+import { describe, it, expect, vi } from 'vitest';
+import { create } from '../src/create';
+import type { StoreMiddleware } from '../src/types';
+
+type CounterState = { count: number; log: string[] };
+
+const createCounter = (middleware: StoreMiddleware<CounterState>[]) =>
+  create({
+    state: { count: 0, log: [] as string[] },
+    actions: {
+      addBy(state, n: number) { state.count += n; },
+    },
+    effects: {
+      async load({ set }, n: number) {
+        set({ count: n });
+        return n * 2;
+      },
+    },
+    middleware,
+  });
+
+describe('middleware', () => {
+  it('should see name, args, previous and next state of actions', () => {
+    const onCommit = vi.fn((_ctx, next) => next());
+    const useStore = createCounter([{ onCommit }]);
+
+    useStore.actions.addBy(5);
+
+    expect(onCommit).toHaveBeenCalledTimes(1);
+    const ctx = onCommit.mock.calls[0][0];
+    expect(ctx.type).toBe('action');
+    expect(ctx.name).toBe('addBy');
+    expect(ctx.args).toEqual([5]);
+    expect(ctx.prevState.count).toBe(0);
+    expect(ctx.nextState.count).toBe(5);
+  });
+
+  it('should wrap setState commits', () => {
+    const onCommit = vi.fn((_ctx, next) => next());
+    const useStore = createCounter([{ onCommit }]);
+    const updater = { count: 3 };
+
+    useStore.setState(updater);
+
+    const ctx = onCommit.mock.calls[0][0];
+    expect(ctx.type).toBe('setState');
+    expect(ctx.args).toEqual([updater]);
+    expect(ctx.nextState.count).toBe(3);
+  });
+
+  it('should veto a commit when next is not called', () => {
+    const listener = vi.fn();
+    const useStore = createCounter([
+      { onCommit: (ctx, next) => { if (ctx.nextState.count >= 0) next(); } },
+    ]);
+    useStore.subscribe(listener);
+
+    useStore.actions.addBy(-1);
+
+    expect(useStore.getState().count).toBe(0);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should let a middleware replace the committed state', () => {
+    const patchListener = vi.fn();
+    const useStore = createCounter([
+      { onCommit: (ctx, next) => next({ ...ctx.nextState, count: Math.min(ctx.nextState.count, 10) }) },
+    ]);
+    useStore.subscribePatches(patchListener);
+
+    useStore.actions.addBy(50);
+
+    expect(useStore.getState().count).toBe(10);
+    expect(patchListener.mock.calls[0][0]).toEqual([{ op: 'replace', path: ['count'], value: 10 }]);
+  });
+
+  it('should run middleware in order, outermost first', () => {
+    const order: string[] = [];
+    const useStore = createCounter([
+      { onCommit: (_ctx, next) => { order.push('a:before'); next(); order.push('a:after'); } },
+      { onCommit: (_ctx, next) => { order.push('b'); next(); } },
+      { afterCommit: () => { order.push('after'); } },
+    ]);
+
+    useStore.actions.addBy(1);
+
+    expect(order).toEqual(['a:before', 'b', 'after', 'a:after']);
+  });
+
+  it('should pass the state returned by an earlier middleware to the next one', () => {
+    const seen = vi.fn();
+    const useStore = createCounter([
+      { onCommit: (ctx, next) => next({ ...ctx.nextState, count: ctx.nextState.count * 2 }) },
+      { onCommit: (ctx, next) => { seen(ctx.nextState.count); next(); } },
+    ]);
+
+    useStore.actions.addBy(2);
+
+    expect(seen).toHaveBeenCalledWith(4);
+    expect(useStore.getState().count).toBe(4);
+  });
+
+  it('should call afterCommit with the committed state', () => {
+    const afterCommit = vi.fn();
+    const useStore = createCounter([{ afterCommit }]);
+
+    useStore.actions.addBy(2);
+
+    expect(afterCommit).toHaveBeenCalledTimes(1);
+    expect(afterCommit.mock.calls[0][0].nextState.count).toBe(2);
+  });
+
+  it('should wrap effects and label their set calls', async () => {
+    const calls: string[] = [];
+    const useStore = createCounter([
+      {
+        onEffect: async (ctx, next) => {
+          calls.push(`start:${ctx.name}:${ctx.args.join(',')}`);
+          const result = await next();
+          calls.push(`end:${result}`);
+          return result;
+        },
+        onCommit: (ctx, next) => {
+          calls.push(`commit:${ctx.type}:${ctx.name}`);
+          next();
+        },
+      },
+    ]);
+
+    const result = await useStore.effects.load(7);
+
+    expect(result).toBe(14);
+    expect(calls).toEqual(['start:load:7', 'commit:effect:load', 'end:14']);
+  });
+
+  it('should let init transform the initial state and setup access the store', () => {
+    const setup = vi.fn();
+    const useStore = createCounter([
+      { init: (state) => ({ ...state, count: 100 }), setup },
+    ]);
+
+    expect(useStore.getState().count).toBe(100);
+    expect(setup).toHaveBeenCalledTimes(1);
+    expect(setup.mock.calls[0][0].getState().count).toBe(100);
+  });
+
+  it('should run undo through the pipeline', () => {
+    const onCommit = vi.fn((_ctx, next) => next());
+    const useStore = create({
+      state: { count: 0 },
+      actions: { inc(state) { state.count += 1; } },
+      history: true,
+      middleware: [{ onCommit }],
+    });
+
+    useStore.actions.inc();
+    useStore.history.undo();
+
+    expect(onCommit.mock.calls[1][0].type).toBe('undo');
+    expect(useStore.getState().count).toBe(0);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import { create } from '../src/create';
+
+const createTodos = () =>
+  create({
+    state: { items: [] as string[], filter: 'all' },
+    actions: {
+      add(state, item: string) { state.items.push(item); },
+    },
+    effects: {
+      async load({ set }) {
+        set({ filter: 'active' });
+      },
+    },
+    computed: {
+      count: (state) => state.items.length,
+    },
+  });
+
+describe('subscribePatches', () => {
+  it('should emit patches and inverse patches for actions', () => {
+    const useStore = createTodos();
+    const listener = vi.fn();
+    useStore.subscribePatches(listener);
+
+    useStore.actions.add('a');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      [{ op: 'add', path: ['items', 0], value: 'a' }],
+      [{ op: 'remove', path: ['items', 0] }],
+      { type: 'action', name: 'add' },
+    );
+  });
+
+  it('should emit patches for setState partials and recipes', () => {
+    const useStore = createTodos();
+    const listener = vi.fn();
+    useStore.subscribePatches(listener);
+
+    useStore.setState({ filter: 'done' });
+    useStore.setState((s) => { s.items.push('x'); });
+
+    expect(listener.mock.calls[0][0]).toEqual([{ op: 'replace', path: ['filter'], value: 'done' }]);
+    expect(listener.mock.calls[0][2]).toEqual({ type: 'setState', name: 'setState' });
+    expect(listener.mock.calls[1][0]).toEqual([{ op: 'add', path: ['items', 0], value: 'x' }]);
+  });
+
+  it('should label effect set calls with the effect name', async () => {
+    const useStore = createTodos();
+    const listener = vi.fn();
+    useStore.subscribePatches(listener);
+
+    await useStore.effects.load();
+
+    expect(listener.mock.calls[0][2]).toEqual({ type: 'effect', name: 'load' });
+  });
+
+  it('should not emit when a commit changes nothing', () => {
+    const useStore = createTodos();
+    const listener = vi.fn();
+    useStore.subscribePatches(listener);
+
+    useStore.setState({ filter: 'all' });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should unsubscribe', () => {
+    const useStore = createTodos();
+    const listener = vi.fn();
+    const unsub = useStore.subscribePatches(listener);
+
+    unsub();
+    useStore.actions.add('a');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('applyPatches', () => {
+  it('should commit patches and recompute computed values', () => {
+    const useStore = createTodos();
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+
+    useStore.applyPatches([{ op: 'add', path: ['items', 0], value: 'remote' }]);
+
+    expect(useStore.getState().items).toEqual(['remote']);
+    expect(useStore.getState().count).toBe(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replay patches from another store', () => {
+    const source = createTodos();
+    const replica = createTodos();
+    source.subscribePatches((patches) => replica.applyPatches(patches));
+
+    source.actions.add('a');
+    source.setState({ filter: 'active' });
+
+    expect(replica.getState()).toEqual(source.getState());
+  });
+
+  it('should emit applied patches with the applyPatches type', () => {
+    const useStore = createTodos();
+    const listener = vi.fn();
+    useStore.subscribePatches(listener);
+
+    useStore.applyPatches([{ op: 'replace', path: ['filter'], value: 'done' }]);
+
+    expect(listener).toHaveBeenCalledWith(
+      [{ op: 'replace', path: ['filter'], value: 'done' }],
+      [{ op: 'replace', path: ['filter'], value: 'all' }],
+      { type: 'applyPatches', name: 'applyPatches' },
+    );
+  });
+});
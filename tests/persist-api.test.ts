@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { create } from '../src/create';
+import type { StateStorage } from '../src/types';
+
+const createMockStorage = (): StateStorage & { store: Map<string, string> } => {
+  const store = new Map<string, string>();
+  return {
+    store,
+    getItem: (key) => store.get(key) ?? null,
+    setItem: vi.fn((key: string, val: string) => { store.set(key, val); }),
+    removeItem: vi.fn((key: string) => { store.delete(key); }),
+  };
+};
+
+const entry = (state: object, version = 0) => JSON.stringify({ state, version });
+const stored = (storage: { store: Map<string, string> }, key: string) => JSON.parse(storage.store.get(key)!).state;
+
+const createCart = (persist: Record<string, any>) =>
+  create({
+    state: { items: [] as string[], coupon: '' },
+    actions: {
+      add(state, item: string) { state.items.push(item); },
+    },
+    computed: {
+      count: (state) => state.items.length,
+    },
+    persist: { name: 'cart', ...persist },
+  });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('persist api', () => {
+  it('should rehydrate from storage and notify hydration listeners', async () => {
+    const storage = createMockStorage();
+    const useStore = createCart({ storage });
+    const onHydrate = vi.fn();
+    const onFinish = vi.fn();
+    useStore.persist.onHydrate(onHydrate);
+    useStore.persist.onFinishHydration(onFinish);
+
+    storage.store.set('cart', entry({ items: ['a', 'b'] }));
+    const rehydrating = useStore.persist.rehydrate();
+    expect(useStore.persist.hasHydrated()).toBe(false);
+    await rehydrating;
+
+    expect(useStore.persist.hasHydrated()).toBe(true);
+    expect(useStore.getState()).toMatchObject({ items: ['a', 'b'], count: 2 });
+    expect(onHydrate).toHaveBeenCalledWith(expect.objectContaining({ items: [] }));
+    expect(onFinish).toHaveBeenCalledWith(expect.objectContaining({ items: ['a', 'b'] }));
+  });
+
+  it('should apply only the latest of overlapping rehydrations', async () => {
+    const storage = createMockStorage();
+    const useStore = createCart({ storage });
+
+    storage.store.set('cart', entry({ items: ['old'] }));
+    const first = useStore.persist.rehydrate();
+    storage.store.set('cart', entry({ items: ['new'] }));
+    const second = useStore.persist.rehydrate();
+    await Promise.all([first, second]);
+
+    expect(useStore.getState().items).toEqual(['new']);
+  });
+
+  it('should clear the configured entry without touching the state', () => {
+    const storage = createMockStorage();
+    const useStore = createCart({ storage });
+    useStore.actions.add('a');
+
+    useStore.persist.clearStorage();
+
+    expect(storage.removeItem).toHaveBeenCalledWith('cart');
+    expect(storage.store.has('cart')).toBe(false);
+    expect(useStore.getState().items).toEqual(['a']);
+  });
+
+  it('should not write while paused', () => {
+    const storage = createMockStorage();
+    const useStore = createCart({ storage });
+    useStore.actions.add('a');
+
+    useStore.persist.pause();
+    useStore.actions.add('demo');
+    useStore.persist.flush();
+    expect(stored(storage, 'cart').items).toEqual(['a']);
+
+    useStore.persist.resume();
+    expect(stored(storage, 'cart').items).toEqual(['a']);
+    useStore.actions.add('b');
+    expect(stored(storage, 'cart').items).toEqual(['a', 'demo', 'b']);
+  });
+
+  it('should write the current state on flush', () => {
+    const storage = createMockStorage();
+    const useStore = createCart({ storage });
+    useStore.persist.pause();
+    useStore.actions.add('a');
+    useStore.persist.resume();
+
+    useStore.persist.flush();
+
+    expect(stored(storage, 'cart')).toEqual({ items: ['a'], coupon: '' });
+  });
+
+  it('should use options changed through setOptions', () => {
+    const storage = createMockStorage();
+    const useStore = createCart({ storage, partialize: (s: any) => ({ items: s.items }) });
+
+    expect(useStore.persist.getOptions()).toMatchObject({ name: 'cart', storage });
+    useStore.persist.setOptions({ name: 'cart:user-1' });
+    useStore.actions.add('a');
+
+    expect(storage.store.has('cart')).toBe(false);
+    expect(stored(storage, 'cart:user-1')).toEqual({ items: ['a'] });
+    expect(useStore.persist.getOptions().name).toBe('cart:user-1');
+  });
+
+  it('should rehydrate from a new name', async () => {
+    const storage = createMockStorage();
+    storage.store.set('cart:user-2', entry({ items: ['saved'] }));
+    const useStore = createCart({ storage });
+
+    useStore.persist.setOptions({ name: 'cart:user-2' });
+    await useStore.persist.rehydrate();
+
+    expect(useStore.getState().items).toEqual(['saved']);
+  });
+
+  it('should reopen the sync channel when the name changes', () => {
+    const useStore = createCart({ sync: true });
+
+    useStore.persist.setOptions({ name: 'cart:user-1' });
+    const value = entry({ items: ['other tab'] });
+    window.dispatchEvent(new StorageEvent('storage', { key: 'cart', newValue: value, storageArea: localStorage }));
+    expect(useStore.getState().items).toEqual([]);
+
+    window.dispatchEvent(new StorageEvent('storage', { key: 'cart:user-1', newValue: value, storageArea: localStorage }));
+    expect(useStore.getState().items).toEqual(['other tab']);
+    useStore.destroy();
+    localStorage.clear();
+  });
+
+  it('should be a no-op without persist', async () => {
+    const useStore = create({ state: { a: 1 } });
+
+    await expect(useStore.persist.rehydrate()).resolves.toBeUndefined();
+    expect(() => {
+      useStore.persist.clearStorage();
+      useStore.persist.flush();
+      useStore.persist.pause();
+      useStore.persist.resume();
+      useStore.persist.setOptions({ name: 'x' });
+    }).not.toThrow();
+    expect(useStore.persist.getOptions()).toEqual({});
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi } from 'vitest';
+import React from 'react';
+import { render, screen, act } from '@testing-library/react';
+import { create } from '../src/create';
+import type { StateStorage } from '../src/types';
+
+// Storage whose reads resolve when the test says so
+const createAsyncStorage = (initial: Record<string, string> = {}) => {
+  const store = new Map(Object.entries(initial));
+  const reads: Array<() => void> = [];
+  const storage: StateStorage = {
+    getItem: (key) => new Promise((resolve) => { reads.push(() => resolve(store.get(key) ?? null)); }),
+    setItem: vi.fn(async (key: string, value: string) => { store.set(key, value); }),
+    removeItem: vi.fn(async (key: string) => { store.delete(key); }),
+  };
+  const finishReads = async () => {
+    reads.splice(0).forEach((finish) => finish());
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  };
+  return { store, storage, finishReads };
+};
+
+const entry = (state: object, version = 0) => JSON.stringify({ state, version });
+
+const createTodos = (persist: Record<string, any>) =>
+  create({
+    state: { items: [] as string[], filter: 'all' },
+    actions: {
+      add(state, item: string) { state.items.push(item); },
+    },
+    computed: {
+      count: (state) => state.items.length,
+    },
+    persist: { name: 'todos', ...persist },
+  });
+
+describe('persist with async storage', () => {
+  it('should hydrate once the storage resolves', async () => {
+    const { storage, finishReads } = createAsyncStorage({ todos: entry({ items: ['a', 'b'] }) });
+    const useStore = createTodos({ storage });
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+
+    expect(useStore.persist.hasHydrated()).toBe(false);
+    expect(useStore.getState().items).toEqual([]);
+
+    await finishReads();
+
+    expect(useStore.persist.hasHydrated()).toBe(true);
+    expect(useStore.getState()).toMatchObject({ items: ['a', 'b'], filter: 'all', count: 2 });
+    expect(listener).toHaveBeenCalled();
+  });
+
+  it('should not clobber the stored entry with commits made before hydration', async () => {
+    const { store, storage, finishReads } = createAsyncStorage({ todos: entry({ items: ['stored'] }) });
+    const useStore = createTodos({ storage });
+
+    useStore.setState({ filter: 'done' });
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    await finishReads();
+
+    expect(useStore.getState()).toMatchObject({ items: ['stored'], filter: 'done' });
+    expect(JSON.parse(store.get('todos')!).state).toEqual({ items: ['stored'], filter: 'done' });
+
+    useStore.actions.add('next');
+    expect(JSON.parse(store.get('todos')!).state.items).toEqual(['stored', 'next']);
+  });
+
+  it('should run async migrations', async () => {
+    const { storage, finishReads } = createAsyncStorage({ todos: entry({ todos: ['old'] }, 1) });
+    const migrate = vi.fn(async (persisted: any) => ({ items: persisted.todos }));
+    const useStore = createTodos({ storage, version: 2, migrate });
+
+    await finishReads();
+
+    expect(migrate).toHaveBeenCalledWith({ todos: ['old'] }, 1);
+    expect(useStore.getState().items).toEqual(['old']);
+  });
+
+  it('should support async migrations with sync storage', async () => {
+    localStorage.setItem('todos', entry({ todos: ['old'] }, 1));
+    const useStore = createTodos({ version: 2, migrate: async (persisted: any) => ({ items: persisted.todos }) });
+
+    expect(useStore.persist.hasHydrated()).toBe(false);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(useStore.persist.hasHydrated()).toBe(true);
+    expect(useStore.getState().items).toEqual(['old']);
+    localStorage.clear();
+  });
+
+  it('should call hydration listeners and onRehydrationFinished', async () => {
+    const { storage, finishReads } = createAsyncStorage({ todos: entry({ items: ['a'] }) });
+    const onRehydrationFinished = vi.fn();
+    const useStore = createTodos({ storage, onRehydrationFinished });
+    const onFinish = vi.fn();
+    const unsubscribe = useStore.persist.onFinishHydration(onFinish);
+    const removed = vi.fn();
+    useStore.persist.onFinishHydration(removed)();
+
+    await finishReads();
+
+    expect(onFinish).toHaveBeenCalledWith(expect.objectContaining({ items: ['a'], count: 1 }));
+    expect(onRehydrationFinished).toHaveBeenCalledTimes(1);
+    expect(removed).not.toHaveBeenCalled();
+    unsubscribe();
+  });
+
+  it('should finish hydration when the read fails', async () => {
+    const storage: StateStorage = {
+      getItem: async () => { throw new Error('IndexedDB unavailable'); },
+      setItem: async () => {},
+      removeItem: async () => {},
+    };
+    const useStore = createTodos({ storage });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(useStore.persist.hasHydrated()).toBe(true);
+    expect(useStore.getState().items).toEqual([]);
+  });
+
+  it('should re-render useHydrated when hydration finishes', async () => {
+    const { storage, finishReads } = createAsyncStorage({ todos: entry({ items: ['a'] }) });
+    const useStore = createTodos({ storage });
+
+    function Todos() {
+      const hydrated = useStore.useHydrated();
+      const count = useStore((s) => s.count);
+      return <span data-testid="v">{hydrated ? count : 'loading'}</span>;
+    }
+    render(<Todos />);
+    expect(screen.getByTestId('v').textContent).toBe('loading');
+
+    await act(finishReads);
+
+    expect(screen.getByTestId('v').textContent).toBe('1');
+  });
+
+  it('should not record hydration in the undo history', async () => {
+    const { storage, finishReads } = createAsyncStorage({ todos: entry({ items: ['a'] }) });
+    const useStore = create({
+      state: { items: [] as string[] },
+      persist: { name: 'todos', storage },
+      history: true,
+    });
+    const metas: string[] = [];
+    useStore.subscribePatches((_patches, _inverse, meta) => metas.push(meta.type));
+
+    await finishReads();
+    expect(useStore.getState().items).toEqual(['a']);
+    expect(useStore.history.canUndo).toBe(false);
+
+    storage.setItem('todos', entry({ items: ['b'] }));
+    const rehydrating = useStore.persist.rehydrate();
+    await finishReads();
+    await rehydrating;
+    expect(useStore.getState().items).toEqual(['b']);
+    expect(useStore.history.canUndo).toBe(false);
+    expect(metas).toEqual(['middleware', 'middleware']);
+  });
+
+  it('should drop a read that finishes after destroy', async () => {
+    const { storage, finishReads } = createAsyncStorage({ todos: entry({ items: ['a'] }) });
+    const useStore = createTodos({ storage });
+    const onFinish = vi.fn();
+    useStore.persist.onFinishHydration(onFinish);
+
+    useStore.destroy();
+    await finishReads();
+
+    expect(useStore.getState().items).toEqual([]);
+    expect(onFinish).not.toHaveBeenCalled();
+  });
+
+  it('should report sync hydration as finished right away', () => {
+    const useStore = createTodos({});
+    expect(useStore.persist.hasHydrated()).toBe(true);
+
+    const plain = create({ state: { a: 1 } });
+    expect(plain.persist.hasHydrated()).toBe(true);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { create } from '../src/create';
+import type { StateStorage } from '../src/types';
+
+const createMockStorage = (): StateStorage & { store: Map<string, string> } => {
+  const store = new Map<string, string>();
+  return {
+    store,
+    getItem: (key) => store.get(key) ?? null,
+    setItem: vi.fn((key: string, val: string) => { store.set(key, val); }),
+    removeItem: (key) => store.delete(key),
+  };
+};
+
+// Delivers each message to every other open channel with the same name
+class StubBroadcastChannel {
+  static channels: StubBroadcastChannel[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(public name: string) {
+    StubBroadcastChannel.channels.push(this);
+  }
+
+  postMessage(data: unknown) {
+    for (const channel of StubBroadcastChannel.channels) {
+      if (channel !== this && channel.name === this.name) channel.onmessage?.({ data });
+    }
+  }
+
+  close() {
+    StubBroadcastChannel.channels = StubBroadcastChannel.channels.filter((c) => c !== this);
+  }
+}
+
+const entry = (state: object, version = 0) => JSON.stringify({ state, version });
+
+const createSettings = (persist: Record<string, any>) =>
+  create({
+    state: { theme: 'light', fontSize: 14 },
+    actions: {
+      setTheme(state, theme: string) { state.theme = theme; },
+    },
+    computed: {
+      isDark: (state) => state.theme === 'dark',
+    },
+    persist: { name: 'settings', sync: true, ...persist },
+  });
+
+afterEach(() => {
+  localStorage.clear();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  StubBroadcastChannel.channels = [];
+});
+
+describe('persist sync (storage events)', () => {
+  const otherTabWrites = (value: string, key = 'settings') => {
+    localStorage.setItem(key, value);
+    window.dispatchEvent(new StorageEvent('storage', { key, newValue: value, storageArea: localStorage }));
+  };
+
+  it('should apply state written by another tab and notify subscribers', () => {
+    const useStore = createSettings({});
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+
+    otherTabWrites(entry({ theme: 'dark', fontSize: 14 }));
+
+    expect(useStore.getState()).toMatchObject({ theme: 'dark', isDark: true });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not write the received state back', () => {
+    const useStore = createSettings({});
+    const setItem = vi.spyOn(Storage.prototype, 'setItem');
+
+    otherTabWrites(entry({ theme: 'dark', fontSize: 14 }));
+    expect(setItem).toHaveBeenCalledTimes(1); // the other tab's write
+
+    useStore.actions.setTheme('blue');
+    expect(setItem).toHaveBeenCalledTimes(2);
+  });
+
+  it('should migrate and merge received entries', () => {
+    const migrate = vi.fn((persisted: any) => ({ theme: persisted.colorScheme }));
+    const useStore = createSettings({ version: 1, migrate });
+
+    otherTabWrites(entry({ colorScheme: 'dark' }, 0));
+
+    expect(migrate).toHaveBeenCalledWith({ colorScheme: 'dark' }, 0);
+    expect(useStore.getState()).toMatchObject({ theme: 'dark', fontSize: 14 });
+  });
+
+  it('should ignore other keys, removals and unreadable entries', () => {
+    const useStore = createSettings({});
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+
+    otherTabWrites(entry({ theme: 'dark' }), 'other');
+    window.dispatchEvent(new StorageEvent('storage', { key: 'settings', newValue: null, storageArea: localStorage }));
+    otherTabWrites('{ not json');
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(useStore.getState().theme).toBe('light');
+  });
+
+  it('should not record received changes in the undo history', () => {
+    const useStore = create({
+      state: { theme: 'light', fontSize: 14 },
+      actions: { setTheme(state, theme: string) { state.theme = theme; } },
+      persist: { name: 'settings', sync: true },
+      history: true,
+    });
+
+    otherTabWrites(entry({ theme: 'light', fontSize: 20 }));
+    expect(useStore.history.canUndo).toBe(false);
+
+    useStore.actions.setTheme('dark');
+    useStore.history.undo();
+    expect(useStore.getState()).toMatchObject({ theme: 'light', fontSize: 20 });
+    expect(useStore.history.canUndo).toBe(false);
+    useStore.destroy();
+  });
+
+  it('should ignore received states that fail validation', () => {
+    const onInvalid = vi.fn();
+    const useStore = create({
+      state: { theme: 'light' },
+      persist: { name: 'settings', sync: true },
+      validate: (state) => (['light', 'dark'].includes(state.theme) ? true : [{ path: ['theme'], message: 'unknown theme' }]),
+      onInvalid,
+    });
+
+    otherTabWrites(entry({ theme: 'neon' }));
+
+    expect(useStore.getState().theme).toBe('light');
+    expect(onInvalid).toHaveBeenCalledWith(expect.objectContaining({ type: 'hydrate', name: 'settings' }));
+    useStore.destroy();
+  });
+
+  it('should stop listening after destroy', () => {
+    const useStore = createSettings({});
+    useStore.destroy();
+
+    otherTabWrites(entry({ theme: 'dark', fontSize: 14 }));
+
+    expect(useStore.getState().theme).toBe('light');
+  });
+
+  it('should not listen without sync', () => {
+    const useStore = createSettings({ sync: false });
+    otherTabWrites(entry({ theme: 'dark', fontSize: 14 }));
+    expect(useStore.getState().theme).toBe('light');
+  });
+});
+
+describe('persist sync (BroadcastChannel)', () => {
+  it('should keep stores with their own storage in sync without echoes', () => {
+    vi.stubGlobal('BroadcastChannel', StubBroadcastChannel);
+    const storageA = createMockStorage();
+    const storageB = createMockStorage();
+    const tabA = createSettings({ storage: storageA });
+    const tabB = createSettings({ storage: storageB });
+    const post = vi.spyOn(StubBroadcastChannel.prototype, 'postMessage');
+
+    tabA.actions.setTheme('dark');
+
+    expect(tabB.getState()).toMatchObject({ theme: 'dark', isDark: true });
+    // B wrote the entry to its own storage but did not broadcast it back
+    expect(JSON.parse(storageB.store.get('settings')!).state.theme).toBe('dark');
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(StubBroadcastChannel.channels.map((c) => c.name)).toEqual([
+      'zustand-immer-lite:settings', 'zustand-immer-lite:settings',
+    ]);
+  });
+
+  it('should close the channel on destroy', () => {
+    vi.stubGlobal('BroadcastChannel', StubBroadcastChannel);
+    const useStore = createSettings({ storage: createMockStorage(), sync: 'broadcast' });
+
+    useStore.destroy();
+
+    expect(StubBroadcastChannel.channels).toHaveLength(0);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { create } from '../src/create';
+import type { StateStorage } from '../src/types';
+
+const createMockStorage = (): StateStorage & { store: Map<string, string> } => {
+  const store = new Map<string, string>();
+  return {
+    store,
+    getItem: (key) => store.get(key) ?? null,
+    setItem: vi.fn((key: string, val: string) => { store.set(key, val); }),
+    removeItem: (key) => store.delete(key),
+  };
+};
+
+const stored = (storage: { store: Map<string, string> }) => JSON.parse(storage.store.get('todos')!).state;
+
+const createTodos = (persist: Record<string, any>) =>
+  create({
+    state: { items: [] as string[], draft: '' },
+    actions: {
+      type(state, draft: string) { state.draft = draft; },
+      add(state) { state.items.push(state.draft); state.draft = ''; },
+    },
+    persist: { name: 'todos', ...persist },
+  });
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('persist writeStrategy', () => {
+  it('should write every commit by default', () => {
+    const storage = createMockStorage();
+    const useStore = createTodos({ storage });
+
+    useStore.actions.type('a');
+    useStore.actions.type('ab');
+
+    expect(storage.setItem).toHaveBeenCalledTimes(2);
+  });
+
+  it('should coalesce commits into one debounced write', async () => {
+    vi.useFakeTimers();
+    const storage = createMockStorage();
+    const useStore = createTodos({ storage, writeStrategy: { debounceMs: 200 } });
+
+    useStore.actions.type('b');
+    await vi.advanceTimersByTimeAsync(150);
+    useStore.actions.type('bu');
+    useStore.actions.type('buy');
+    await vi.advanceTimersByTimeAsync(150);
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(stored(storage).draft).toBe('buy');
+  });
+
+  it('should write once the browser is idle', () => {
+    const idle: Array<() => void> = [];
+    vi.stubGlobal('requestIdleCallback', vi.fn((fn: () => void) => idle.push(fn)));
+    vi.stubGlobal('cancelIdleCallback', vi.fn());
+    const storage = createMockStorage();
+    const useStore = createTodos({ storage, writeStrategy: 'idle' });
+
+    useStore.actions.type('a');
+    useStore.actions.add();
+    expect(idle).toHaveLength(1);
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    idle[0]();
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(stored(storage)).toEqual({ items: ['a'], draft: '' });
+  });
+
+  it('should fall back to a timeout without requestIdleCallback', async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('requestIdleCallback', undefined);
+    const storage = createMockStorage();
+    const useStore = createTodos({ storage, writeStrategy: 'idle' });
+
+    useStore.actions.type('a');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(stored(storage).draft).toBe('a');
+  });
+
+  it.each(['pagehide', 'beforeunload'])('should write the pending change on %s', (type) => {
+    vi.useFakeTimers();
+    const storage = createMockStorage();
+    const useStore = createTodos({ storage, writeStrategy: { debounceMs: 1000 } });
+
+    useStore.actions.type('last');
+    window.dispatchEvent(new Event(type));
+
+    expect(stored(storage).draft).toBe('last');
+    vi.advanceTimersByTime(1000);
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only listen for unload while a write is pending', () => {
+    vi.useFakeTimers();
+    const add = vi.spyOn(window, 'addEventListener');
+    const remove = vi.spyOn(window, 'removeEventListener');
+    const useStore = createTodos({ storage: createMockStorage(), writeStrategy: { debounceMs: 100 } });
+    expect(add).not.toHaveBeenCalledWith('pagehide', expect.anything());
+
+    useStore.actions.type('a');
+    expect(add).toHaveBeenCalledWith('pagehide', expect.any(Function));
+    vi.advanceTimersByTime(100);
+    expect(remove).toHaveBeenCalledWith('pagehide', expect.any(Function));
+    expect(remove).toHaveBeenCalledWith('beforeunload', expect.any(Function));
+  });
+
+  it('should write the pending change on flush, pause and destroy', () => {
+    vi.useFakeTimers();
+    const storage = createMockStorage();
+    const useStore = createTodos({ storage, writeStrategy: { debounceMs: 1000 } });
+
+    useStore.actions.type('a');
+    useStore.persist.flush();
+    expect(stored(storage).draft).toBe('a');
+
+    useStore.actions.type('b');
+    useStore.persist.pause();
+    expect(stored(storage).draft).toBe('b');
+    useStore.persist.resume();
+
+    useStore.actions.type('c');
+    useStore.destroy();
+    expect(stored(storage).draft).toBe('c');
+    expect(storage.setItem).toHaveBeenCalledTimes(3);
+
+    vi.advanceTimersByTime(1000);
+    expect(storage.setItem).toHaveBeenCalledTimes(3);
+  });
+
+  it('should drop the pending write when the storage is cleared', async () => {
+    vi.useFakeTimers();
+    const storage = createMockStorage();
+    const useStore = createTodos({ storage, writeStrategy: { debounceMs: 5 } });
+    useStore.actions.type('a');
+    useStore.persist.flush();
+
+    useStore.setState({ draft: 'b' });
+    useStore.persist.clearStorage();
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(storage.store.has('todos')).toBe(false);
+    expect(useStore.getState().draft).toBe('b');
+  });
+
+  it('should leave the storage empty after reset with clearPersisted', async () => {
+    const idle: Array<() => void> = [];
+    vi.stubGlobal('requestIdleCallback', vi.fn((fn: () => void) => idle.push(fn)));
+    vi.stubGlobal('cancelIdleCallback', vi.fn());
+    const storage = createMockStorage();
+    const useStore = createTodos({ storage, writeStrategy: 'idle' });
+    useStore.actions.type('a');
+    idle.shift()!();
+
+    useStore.reset(undefined, { clearPersisted: true });
+    idle.forEach((run) => run());
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(storage.store.has('todos')).toBe(false);
+  });
+
+  it('should not let a pending write overwrite the entry being rehydrated', async () => {
+    vi.useFakeTimers();
+    const storage = createMockStorage();
+    const useStore = createTodos({ storage, writeStrategy: { debounceMs: 100 } });
+
+    useStore.actions.type('local');
+    storage.store.set('todos', JSON.stringify({ state: { items: ['other tab'] }, version: 0 }));
+    await useStore.persist.rehydrate();
+
+    expect(useStore.getState()).toMatchObject({ items: ['other tab'], draft: 'local' });
+    expect(stored(storage)).toEqual({ items: ['other tab'], draft: 'local' });
+  });
+});
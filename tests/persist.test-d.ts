@@ -0,0 +1,23 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type { StateStorage } from '../src/types';
+
+describe('persist types', () => {
+  it('should accept sync storage adapters whose writes return a value', () => {
+    const map = new Map<string, string>();
+    const storage: StateStorage = {
+      getItem: (key) => map.get(key) ?? null,
+      setItem: (key, value) => map.set(key, value),
+      removeItem: (key) => map.delete(key),
+    };
+    expectTypeOf(storage).toMatchTypeOf<StateStorage>();
+  });
+
+  it('should accept async storage adapters', () => {
+    const storage: StateStorage = {
+      getItem: async () => null,
+      setItem: async () => {},
+      removeItem: async () => {},
+    };
+    expectTypeOf(storage.getItem).returns.toEqualTypeOf<string | null | Promise<string | null>>();
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import React from 'react';
+import { render, screen, act, waitFor } from '@testing-library/react';
+import { create } from '../src/create';
+import type { StateStorage } from '../src/types';
+
+const createMockStorage = (): StateStorage & { store: Map<string, string> } => {
+  const store = new Map<string, string>();
+  return {
+    store,
+    getItem: (key) => store.get(key) ?? null,
+    setItem: (key, val) => store.set(key, val),
+    removeItem: (key) => store.delete(key),
+  };
+};
+
+describe('getInitialState', () => {
+  it('should return config.state even after changes', () => {
+    const initial = { count: 0, name: 'a' };
+    const useStore = create({ state: initial });
+
+    useStore.setState({ count: 5 });
+
+    expect(useStore.getInitialState()).toBe(initial);
+  });
+});
+
+describe('reset', () => {
+  it('should restore the whole initial state', () => {
+    const useStore = create({
+      state: { user: null as string | null, items: [] as string[] },
+      actions: {
+        login(state, user: string) { state.user = user; state.items.push('x'); },
+      },
+    });
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+
+    useStore.actions.login('bob');
+    useStore.reset();
+
+    expect(useStore.getState()).toEqual({ user: null, items: [] });
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should restore only the given keys', () => {
+    const useStore = create({ state: { a: 1, b: 2 } });
+
+    useStore.setState({ a: 10, b: 20 });
+    useStore.reset(['a']);
+
+    expect(useStore.getState()).toEqual({ a: 1, b: 20 });
+  });
+
+  it('should recompute every computed value from scratch', () => {
+    let calls = 0;
+    const useStore = create({
+      state: { x: 1, y: 1 },
+      computed: {
+        sum: (state) => { calls++; return state.x + state.y; },
+      },
+    });
+
+    useStore.setState({ x: 5 });
+    calls = 0;
+    useStore.reset(['y']);
+
+    expect(calls).toBe(1);
+    expect(useStore.getState().sum).toBe(6);
+  });
+
+  it('should clear the persisted entry when asked', () => {
+    const storage = createMockStorage();
+    const useStore = create({
+      state: { token: '' },
+      persist: { name: 'session', storage },
+    });
+
+    useStore.setState({ token: 'abc' });
+    expect(storage.store.has('session')).toBe(true);
+
+    useStore.reset(undefined, { clearPersisted: true });
+
+    expect(useStore.getState().token).toBe('');
+    expect(storage.store.has('session')).toBe(false);
+  });
+
+  it('should keep writing the reset state when the entry is not cleared', () => {
+    const storage = createMockStorage();
+    const useStore = create({
+      state: { token: '' },
+      persist: { name: 'session', storage },
+    });
+
+    useStore.setState({ token: 'abc' });
+    useStore.reset();
+
+    expect(JSON.parse(storage.store.get('session')!).state.token).toBe('');
+  });
+
+  it('should clear the undo history', () => {
+    const useStore = create({
+      state: { count: 0 },
+      actions: { inc(state) { state.count += 1; } },
+      history: true,
+    });
+
+    useStore.actions.inc();
+    useStore.reset();
+
+    expect(useStore.history.canUndo).toBe(false);
+  });
+
+  it('should clear query caches when asked', async () => {
+    const fn = vi.fn().mockResolvedValue('profile');
+    const useStore = create({
+      state: {},
+      queries: { profile: { fn, staleTime: 60_000 } },
+    });
+
+    await act(async () => { useStore.queries.profile.prefetch(); });
+    expect(useStore.queries.profile.getQueryData([])).toBe('profile');
+
+    useStore.reset(undefined, { queries: true });
+
+    expect(useStore.queries.profile.getQueryData([])).toBeUndefined();
+  });
+
+  it('should reset mounted mutations when asked', async () => {
+    const useStore = create({
+      state: {},
+      mutations: { save: { fn: async () => 'saved' } },
+    });
+
+    function TestComponent() {
+      const { mutate, data } = useStore.mutations.save();
+      return (
+        <div>
+          <span data-testid="v">{data ?? 'Idle'}</span>
+          <button data-testid="btn" onClick={() => mutate()}>Go</button>
+        </div>
+      );
+    }
+
+    render(<TestComponent />);
+    await act(async () => {
+      screen.getByTestId('btn').click();
+    });
+    await waitFor(() => expect(screen.getByTestId('v').textContent).toBe('saved'));
+
+    act(() => { useStore.reset(undefined, { mutations: true }); });
+
+    expect(screen.getByTestId('v').textContent).toBe('Idle');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import React from 'react';
+import { render, screen, act } from '@testing-library/react';
+import { create } from '../src/create';
+
+interface Todo { id: number; text: string; category: string }
+
+const createTodos = (todoById = (state: { todos: Todo[] }, id: number) => state.todos.find((t) => t.id === id)) =>
+  create({
+    state: {
+      todos: [
+        { id: 1, text: 'a', category: 'work' },
+        { id: 2, text: 'b', category: 'home' },
+      ] as Todo[],
+      filter: 'all',
+    },
+    actions: {
+      rename(state, id: number, text: string) {
+        const todo = state.todos.find((t) => t.id === id);
+        if (todo) todo.text = text;
+      },
+      setFilter(state, filter: string) { state.filter = filter; },
+    },
+    computed: {
+      count: (state) => state.todos.length,
+    },
+    selectors: {
+      todoById,
+      byCategory: (state, category: string) => state.todos.filter((t: Todo) => t.category === category),
+      withCount: (state, prefix: string) => `${prefix}${state.count}`,
+    },
+  });
+
+describe('selectors', () => {
+  it('should select with arguments', () => {
+    const useStore = createTodos();
+
+    expect(useStore.selectors.todoById(2)?.text).toBe('b');
+    expect(useStore.selectors.byCategory('work')).toEqual([{ id: 1, text: 'a', category: 'work' }]);
+  });
+
+  it('should read computed values', () => {
+    const useStore = createTodos();
+    expect(useStore.selectors.withCount('n=')).toBe('n=2');
+  });
+
+  it('should memoize per argument set', () => {
+    const fn = vi.fn((state: { todos: Todo[] }, id: number) => state.todos.find((t) => t.id === id));
+    const useStore = createTodos(fn);
+
+    useStore.selectors.todoById(1);
+    useStore.selectors.todoById(2);
+    useStore.selectors.todoById(1);
+    useStore.selectors.todoById(2);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return the same reference until its dependencies change', () => {
+    const useStore = createTodos();
+    const work = useStore.selectors.byCategory('work');
+
+    useStore.actions.setFilter('done');
+    expect(useStore.selectors.byCategory('work')).toBe(work);
+
+    useStore.actions.rename(1, 'a2');
+    const next = useStore.selectors.byCategory('work');
+    expect(next).not.toBe(work);
+    expect(next[0].text).toBe('a2');
+  });
+
+  it('should evict the least recently used argument sets', () => {
+    const fn = vi.fn((state: { todos: Todo[] }, id: number) => state.todos.find((t) => t.id === id));
+    const useStore = createTodos(fn);
+
+    for (let id = 0; id < 51; id++) useStore.selectors.todoById(id);
+    fn.mockClear();
+
+    useStore.selectors.todoById(50); // still cached
+    expect(fn).not.toHaveBeenCalled();
+    useStore.selectors.todoById(0); // evicted
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should recompute after clear', () => {
+    const fn = vi.fn((state: { todos: Todo[] }, id: number) => state.todos.find((t) => t.id === id));
+    const useStore = createTodos(fn);
+
+    useStore.selectors.todoById(1);
+    useStore.selectors.todoById.clear();
+    useStore.selectors.todoById(1);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should re-render only when the result for its arguments changes', () => {
+    const useStore = createTodos();
+    let renders = 0;
+
+    function TodoText({ id }: { id: number }) {
+      renders++;
+      const todo = useStore.selectors.todoById.use(id);
+      return <span data-testid="v">{todo?.text}</span>;
+    }
+
+    render(<TodoText id={1} />);
+    expect(screen.getByTestId('v').textContent).toBe('a');
+    expect(renders).toBe(1);
+
+    act(() => { useStore.actions.rename(2, 'b2'); });
+    act(() => { useStore.actions.setFilter('done'); });
+    expect(renders).toBe(1);
+
+    act(() => { useStore.actions.rename(1, 'a2'); });
+    expect(screen.getByTestId('v').textContent).toBe('a2');
+    expect(renders).toBe(2);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { create } from '../src/create';
+import { createSlice, parentDraft } from '../src/slice';
+
+interface Todo { id: number; text: string; done: boolean }
+
+const todosSlice = createSlice({
+  state: { items: [] as Todo[] },
+  actions: {
+    add(state, text: string) {
+      state.items.push({ id: state.items.length + 1, text, done: false });
+    },
+    toggle(state, id: number) {
+      const todo = state.items.find((t) => t.id === id);
+      if (todo) todo.done = !todo.done;
+    },
+    addForCurrentUser(state, text: string) {
+      const root = parentDraft<{ auth: { user: string | null } }>(state);
+      state.items.push({ id: state.items.length + 1, text: `${root.auth.user}: ${text}`, done: false });
+    },
+  },
+  effects: {
+    async load({ set }, texts: string[]) {
+      set({ items: texts.map((text, i) => ({ id: i + 1, text, done: false })) });
+      return texts.length;
+    },
+    async loadForUser({ get, parent }) {
+      const user = parent.get().auth.user as string;
+      return `${user}:${get().items.length}`;
+    },
+  },
+  computed: {
+    remaining: (state) => state.items.filter((t) => !t.done).length,
+    summary: (state) => `${(state as any).remaining}/${state.items.length}`,
+  },
+  queries: {
+    byId: { fn: async (id: number) => ({ id }) },
+  },
+});
+
+const authSlice = createSlice({
+  state: { user: null as string | null },
+  actions: {
+    login(state, user: string) { state.user = user; },
+  },
+});
+
+const createApp = () =>
+  create({
+    state: { theme: 'light' },
+    actions: {
+      setTheme(state, theme: string) { state.theme = theme; },
+    },
+    slices: { todos: todosSlice, auth: authSlice },
+  });
+
+describe('slices', () => {
+  it('should put each slice state under its key', () => {
+    const useStore = createApp();
+    const state = useStore.getState();
+
+    expect(state.theme).toBe('light');
+    expect(state.todos.items).toEqual([]);
+    expect(state.auth.user).toBeNull();
+  });
+
+  it('should namespace slice actions and scope them to the slice state', () => {
+    const useStore = createApp();
+
+    useStore.actions.todos.add('write docs');
+    useStore.actions.todos.toggle(1);
+    useStore.actions.auth.login('ada');
+    useStore.actions.setTheme('dark');
+
+    const state = useStore.getState();
+    expect(state.todos.items).toEqual([{ id: 1, text: 'write docs', done: true }]);
+    expect(state.auth.user).toBe('ada');
+    expect(state.theme).toBe('dark');
+  });
+
+  it('should reach the parent draft from a slice action', () => {
+    const useStore = createApp();
+
+    useStore.actions.auth.login('ada');
+    useStore.actions.todos.addForCurrentUser('ship');
+
+    expect(useStore.getState().todos.items[0].text).toBe('ada: ship');
+  });
+
+  it('should throw when parentDraft is called outside a slice action', () => {
+    expect(() => parentDraft({})).toThrow(/slice action/);
+  });
+
+  it('should expose slice computed values inside the slice', () => {
+    const useStore = createApp();
+
+    useStore.actions.todos.add('a');
+    useStore.actions.todos.add('b');
+    useStore.actions.todos.toggle(1);
+
+    const { todos } = useStore.getState();
+    expect(todos.remaining).toBe(1);
+    expect(todos.summary).toBe('1/2');
+    expect(useStore.getState()).not.toHaveProperty('todos/remaining');
+  });
+
+  it('should keep the slice object identity while the slice is unchanged', () => {
+    const useStore = createApp();
+    useStore.actions.todos.add('a');
+    const todos = useStore.getState().todos;
+
+    useStore.actions.setTheme('dark');
+    expect(useStore.getState().todos).toBe(todos);
+
+    useStore.actions.todos.toggle(1);
+    expect(useStore.getState().todos).not.toBe(todos);
+  });
+
+  it('should scope slice effect helpers to the slice state', async () => {
+    const useStore = createApp();
+
+    expect(await useStore.effects.todos.load(['a', 'b'])).toBe(2);
+    expect(useStore.getState().todos.items.map((t) => t.text)).toEqual(['a', 'b']);
+    expect(useStore.getState().theme).toBe('light');
+
+    useStore.actions.auth.login('ada');
+    expect(await useStore.effects.todos.loadForUser()).toBe('ada:2');
+    expect(useStore.getEffectStatus('todos/load').callCount).toBe(1);
+  });
+
+  it('should namespace slice queries', async () => {
+    const useStore = createApp();
+    expect(typeof useStore.queries.todos.byId).toBe('function');
+    expect(typeof useStore.queries.todos.byId.clear).toBe('function');
+  });
+
+  it('should name slice commits by slice and action', () => {
+    const names: string[] = [];
+    const useStore = create({
+      state: {},
+      slices: { auth: authSlice },
+      middleware: [{ afterCommit: (ctx) => { names.push(ctx.name); } }],
+    });
+
+    useStore.actions.auth.login('ada');
+    expect(names).toEqual(['auth/login']);
+  });
+
+  it('should restore slice state on reset', () => {
+    const useStore = createApp();
+    useStore.actions.todos.add('a');
+
+    useStore.reset(['todos']);
+    expect(useStore.getState().todos.items).toEqual([]);
+    expect(useStore.getState().todos.remaining).toBe(0);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest';
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+import { hydrateRoot } from 'react-dom/client';
+import { render, screen, act } from '@testing-library/react';
+import { create } from '../src/create';
+import { dehydrate, hydrate } from '../src/ssr';
+
+const createApp = (fetchUser = vi.fn(async (id: number) => ({ id, name: `user${id}` }))) => {
+  const fetchPage = vi.fn(async (_filter: string, cursor?: number) => ({ items: [cursor ?? 0], next: (cursor ?? 0) + 1 }));
+  const useStore = create({
+    state: { count: 0, label: 'server' },
+    actions: {
+      increment(state) { state.count += 1; },
+    },
+    computed: {
+      doubled: (state) => state.count * 2,
+    },
+    queries: {
+      user: { fn: fetchUser, staleTime: 60_000 },
+      feed: { fn: fetchPage, infinite: true as const, getNextPageParam: (last: { next: number }) => last.next, staleTime: 60_000 },
+      failing: { fn: async (_id: number) => { throw new TypeError('boom'); } },
+    },
+  });
+  return { useStore, fetchUser, fetchPage };
+};
+
+describe('dehydrate / hydrate', () => {
+  it('should serialize raw state and settled query entries', async () => {
+    const { useStore } = createApp();
+    useStore.actions.increment();
+    await useStore.queries.user.prefetch(1);
+    await useStore.queries.feed.prefetch('all');
+    await useStore.queries.failing.prefetch(1);
+
+    const payload = JSON.parse(JSON.stringify(dehydrate(useStore)));
+
+    expect(payload.state).toEqual({ count: 1, label: 'server' });
+    expect(payload.queries.user['[1]']).toMatchObject({ data: { id: 1, name: 'user1' }, error: null });
+    expect(payload.queries.user['[1]'].fetchedAt).toBeGreaterThan(0);
+    expect(payload.queries.feed['["all"]'].data).toEqual({ pages: [{ items: [0], next: 1 }], pageParams: [null] });
+    expect(payload.queries.failing['[1]'].error).toEqual({ name: 'TypeError', message: 'boom' });
+  });
+
+  it('should leave out entries that are still loading', () => {
+    const { useStore } = createApp(vi.fn(() => new Promise<never>(() => {})));
+    useStore.queries.user.prefetch(1);
+
+    expect(dehydrate(useStore).queries).toEqual({});
+  });
+
+  it('should seed state and caches without refetching fresh data', async () => {
+    const server = createApp();
+    server.useStore.actions.increment();
+    await server.useStore.queries.user.prefetch(1);
+    await server.useStore.queries.failing.prefetch(2);
+    const payload = JSON.parse(JSON.stringify(dehydrate(server.useStore)));
+
+    const client = createApp();
+    hydrate(client.useStore, payload);
+
+    expect(client.useStore.getState()).toMatchObject({ count: 1, doubled: 2 });
+    expect(client.useStore.queries.user.getQueryData([1])).toEqual({ id: 1, name: 'user1' });
+
+    const states: Array<{ loading: boolean; data: unknown }> = [];
+    function User() {
+      const { data, loading } = client.useStore.queries.user(1);
+      states.push({ loading, data });
+      return <span data-testid="v">{data?.name}</span>;
+    }
+    render(<User />);
+
+    expect(screen.getByTestId('v').textContent).toBe('user1');
+    expect(states[0]).toEqual({ loading: false, data: { id: 1, name: 'user1' } });
+    expect(client.fetchUser).not.toHaveBeenCalled();
+  });
+
+  it('should restore errors as Error instances', async () => {
+    const server = createApp();
+    await server.useStore.queries.failing.prefetch(1);
+    const client = createApp();
+
+    hydrate(client.useStore, JSON.parse(JSON.stringify(dehydrate(server.useStore))));
+
+    const errors: Array<Error | null> = [];
+    function Failing() {
+      errors.push(client.useStore.queries.failing(1).error);
+      return null;
+    }
+    await act(async () => { render(<Failing />); });
+
+    // First render shows the server's error; the mount then retries
+    expect(errors[0]).toBeInstanceOf(Error);
+    expect(errors[0]!.name).toBe('TypeError');
+    expect(errors[0]!.message).toBe('boom');
+  });
+
+  it('should keep local entries fetched after the dehydrated ones', async () => {
+    const client = createApp();
+    client.useStore.queries.user.setQueryData([1], { id: 1, name: 'newer' });
+
+    hydrate(client.useStore, {
+      state: {},
+      queries: { user: { '[1]': { data: { id: 1, name: 'older' }, fetchedAt: 1, error: null } } },
+    });
+
+    expect(client.useStore.queries.user.getQueryData([1])).toEqual({ id: 1, name: 'newer' });
+  });
+
+  it('should hydrate server markup without a mismatch', async () => {
+    const server = createApp();
+    server.useStore.actions.increment();
+    const Count = ({ store }: { store: typeof server.useStore }) => <span>{store((s) => s.doubled)}</span>;
+    const html = renderToString(<Count store={server.useStore} />);
+    const payload = dehydrate(server.useStore);
+
+    const client = createApp();
+    hydrate(client.useStore, payload);
+    // A change made before React hydrates must not be compared against the server markup
+    client.useStore.actions.increment();
+
+    const container = document.createElement('div');
+    container.innerHTML = html;
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const recoverable = vi.fn();
+    await act(async () => {
+      hydrateRoot(container, <Count store={client.useStore} />, { onRecoverableError: recoverable });
+    });
+
+    expect(recoverable).not.toHaveBeenCalled();
+    expect(error).not.toHaveBeenCalled();
+    expect(container.textContent).toBe('4');
+    error.mockRestore();
+  });
+
+  it('should reject stores not created with create()', () => {
+    expect(() => dehydrate({})).toThrow(/create\(\)/);
+  });
+});
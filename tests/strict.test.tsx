@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import React from 'react';
+import { render, act } from '@testing-library/react';
+import { create } from '../src/create';
+
+const createStore = (strict = true) =>
+  create({
+    state: { todos: [{ id: 1, title: 'a', done: false }], filter: 'all' },
+    actions: {
+      add(state, title: string) { state.todos.push({ id: state.todos.length + 1, title, done: false }); },
+      toggle(state, id: number) {
+        const todo = state.todos.find((t) => t.id === id);
+        if (todo) todo.done = !todo.done;
+      },
+    },
+    computed: {
+      open: (state) => state.todos.filter((t) => !t.done),
+    },
+    selectors: {
+      byId: (state, id: number) => state.todos.find((t) => t.id === id),
+    },
+    strict,
+  });
+
+describe('strict mode', () => {
+  it('should throw a clear error when getState() is mutated', () => {
+    const useStore = createStore();
+
+    expect(() => { useStore.getState().todos.push({ id: 2, title: 'b', done: false }); })
+      .toThrow('[zustand-immer-lite] strict mode: cannot set "todos.1" outside an action');
+    expect(() => { useStore.getState().todos[0].title = 'x'; }).toThrow(/cannot set "todos\.0\.title"/);
+    expect(() => { delete (useStore.getState() as any).filter; }).toThrow(/cannot delete "filter"/);
+    expect(useStore.getState().todos).toEqual([{ id: 1, title: 'a', done: false }]);
+  });
+
+  it('should report the stack of the offending code', () => {
+    const useStore = createStore();
+    function mutateOutsideAction() {
+      useStore.getState().filter = 'done';
+    }
+
+    let error: Error | undefined;
+    try { mutateOutsideAction(); } catch (e) { error = e as Error; }
+
+    expect(error?.stack).toContain('mutateOutsideAction');
+  });
+
+  it('should protect computed values', () => {
+    const useStore = createStore();
+    expect(() => { useStore.getState().open.pop(); }).toThrow(/cannot (set|delete) "open/);
+    expect(Object.isFrozen(useStore.getState().open)).toBe(true);
+  });
+
+  it('should keep actions and setState recipes working', () => {
+    const useStore = createStore();
+    useStore.actions.add('b');
+    useStore.actions.toggle(1);
+    useStore.setState((draft) => { draft.filter = 'done'; draft.todos[1].title = 'B'; });
+
+    expect(useStore.getState()).toMatchObject({
+      filter: 'done',
+      todos: [{ id: 1, done: true }, { id: 2, title: 'B' }],
+      open: [{ id: 2 }],
+    });
+  });
+
+  it('should accept state read from the store back into actions', () => {
+    const useStore = createStore();
+    const todos = useStore.getState().todos;
+
+    useStore.setState({ todos: [...todos, { id: 2, title: 'b', done: false }] });
+    useStore.actions.toggle(1);
+
+    expect(useStore.getState().todos.map((t) => t.done)).toEqual([true, false]);
+  });
+
+  it('should keep view identity while the state is unchanged', () => {
+    const useStore = createStore();
+    const before = useStore.getState().todos;
+    useStore.setState({ filter: 'done' });
+
+    expect(useStore.getState().todos).toBe(before);
+  });
+
+  it('should protect selector results', () => {
+    const useStore = createStore();
+    let selected: Array<{ id: number }> = [];
+
+    function Ids() {
+      selected = useStore((s) => s.todos.map((t) => ({ id: t.id })));
+      return null;
+    }
+    render(<Ids />);
+
+    expect(() => { selected.push({ id: 9 }); }).toThrow(/strict mode/);
+    expect(() => { useStore.selectors.byId(1)!.done = true; }).toThrow(/strict mode/);
+
+    act(() => { useStore.actions.add('b'); });
+    expect(selected).toHaveLength(2);
+  });
+
+  it('should leave state mutable without strict', () => {
+    const useStore = createStore(false);
+    expect(() => { (useStore.getState() as any).extra = 1; }).not.toThrow();
+  });
+});
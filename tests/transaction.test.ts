@@ -0,0 +1,283 @@
+import { describe, it, expect, vi } from 'vitest';
+import { create } from '../src/create';
+import { createSlice } from '../src/slice';
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => { resolve = r; });
+  return { promise, resolve };
+};
+
+const createStore = () =>
+  create({
+    state: { count: 0, title: 'a', items: ['x'] as string[], user: { name: 'ann', age: 1 } },
+    actions: {
+      add(state, n: number) { state.count += n; },
+      push(state, item: string) { state.items.push(item); },
+      rename(state, name: string) { state.user.name = name; },
+    },
+    computed: {
+      doubled: (state) => state.count * 2,
+    },
+    history: true,
+  });
+
+describe('transaction', () => {
+  it('should apply changes immediately and keep them on success', async () => {
+    const useStore = createStore();
+    const gate = deferred();
+
+    const done = useStore.transaction(async ({ set, actions, get }) => {
+      actions.add(2);
+      set((s) => { s.title = 'b'; });
+      expect(get()).toMatchObject({ count: 2, doubled: 4, title: 'b' });
+      await gate.promise;
+      return 'ok';
+    });
+
+    expect(useStore.getState()).toMatchObject({ count: 2, title: 'b' });
+    gate.resolve();
+
+    await expect(done).resolves.toBe('ok');
+    expect(useStore.getState()).toMatchObject({ count: 2, title: 'b' });
+  });
+
+  it('should revert every change and rethrow on failure', async () => {
+    const useStore = createStore();
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+
+    await expect(useStore.transaction(async ({ set, actions }) => {
+      actions.add(2);
+      actions.push('y');
+      set({ title: 'b' });
+      await Promise.resolve();
+      throw new Error('server said no');
+    })).rejects.toThrow('server said no');
+
+    expect(useStore.getState()).toMatchObject({ count: 0, doubled: 0, title: 'a', items: ['x'] });
+    // Three commits, then one rollback
+    expect(listener).toHaveBeenCalledTimes(4);
+  });
+
+  it('should keep commits made by others while it was open', async () => {
+    const useStore = createStore();
+    const gate = deferred();
+
+    const done = useStore.transaction(async ({ actions }) => {
+      actions.add(5);
+      await gate.promise;
+      throw new Error('fail');
+    });
+
+    useStore.actions.rename('bob');
+    useStore.setState({ title: 'other' });
+    gate.resolve();
+    await done.catch(() => {});
+
+    expect(useStore.getState()).toMatchObject({ count: 0, title: 'other', user: { name: 'bob', age: 1 } });
+  });
+
+  it('should let a later foreign write to the same value win', async () => {
+    const useStore = createStore();
+    const gate = deferred();
+
+    const done = useStore.transaction(async ({ actions }) => {
+      actions.add(5);
+      await gate.promise;
+      throw new Error('fail');
+    });
+
+    useStore.actions.add(1);
+    gate.resolve();
+    await done.catch(() => {});
+
+    expect(useStore.getState().count).toBe(6);
+  });
+
+  it('should remove its own items from an array others added to', async () => {
+    const useStore = create({
+      state: { todos: [] as string[], n: 0 },
+      actions: {
+        add(state, todo: string) { state.todos.push(todo); },
+        bump(state) { state.n += 1; },
+      },
+    });
+    const gate = deferred();
+
+    const done = useStore.transaction(async ({ actions }) => {
+      actions.add('optimistic');
+      actions.bump();
+      await gate.promise;
+      throw new Error('fail');
+    });
+
+    useStore.actions.add('foreign');
+    gate.resolve();
+    await done.catch(() => {});
+
+    expect(useStore.getState()).toEqual({ todos: ['foreign'], n: 0 });
+  });
+
+  it('should rebase removals and in-place edits over foreign array changes', async () => {
+    const useStore = create({
+      state: { todos: [{ id: 1, done: false }, { id: 2, done: false }, { id: 3, done: false }] },
+      actions: {
+        toggle(state, id: number) {
+          const todo = state.todos.find((t) => t.id === id)!;
+          todo.done = !todo.done;
+        },
+        remove(state, id: number) { state.todos = state.todos.filter((t) => t.id !== id); },
+        prepend(state, id: number) { state.todos.unshift({ id, done: false }); },
+      },
+    });
+    const gate = deferred();
+
+    const done = useStore.transaction(async ({ actions }) => {
+      actions.toggle(1);
+      actions.remove(2);
+      await gate.promise;
+      throw new Error('fail');
+    });
+
+    useStore.actions.prepend(0);
+    useStore.actions.toggle(3);
+    gate.resolve();
+    await done.catch(() => {});
+
+    expect(useStore.getState().todos).toEqual([
+      { id: 0, done: false }, { id: 1, done: false }, { id: 2, done: false }, { id: 3, done: true },
+    ]);
+  });
+
+  it('should revert nothing and warn when a change cannot be rebased', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const useStore = create({
+      state: { todos: [] as Array<{ title: string; done: boolean }>, n: 0 },
+      actions: {
+        add(state, title: string) { state.todos.push({ title, done: false }); },
+        toggle(state, index: number) { state.todos[index].done = !state.todos[index].done; },
+        bump(state) { state.n += 1; },
+      },
+    });
+    const gate = deferred();
+
+    const done = useStore.transaction(async ({ actions }) => {
+      actions.add('optimistic');
+      actions.bump();
+      await gate.promise;
+      throw new Error('fail');
+    });
+
+    // Another commit edits the item the transaction inserted
+    useStore.actions.toggle(0);
+    gate.resolve();
+
+    await expect(done).rejects.toThrow('fail');
+    expect(useStore.getState()).toEqual({ todos: [{ title: 'optimistic', done: true }], n: 1 });
+    expect(warn).toHaveBeenCalledWith(
+      '[zustand-immer-lite] could not roll back a failed transaction: "todos.0" was also changed by another commit. None of its changes were reverted.',
+    );
+    warn.mockRestore();
+  });
+
+  it('should roll back overlapping transactions independently', async () => {
+    const useStore = createStore();
+    const first = deferred();
+    const second = deferred();
+
+    const failing = useStore.transaction(async ({ set }) => {
+      set((s) => { s.title = 'first'; });
+      await first.promise;
+      throw new Error('fail');
+    });
+    const succeeding = useStore.transaction(async ({ actions }) => {
+      actions.rename('second');
+      await second.promise;
+    });
+
+    first.resolve();
+    await failing.catch(() => {});
+    expect(useStore.getState()).toMatchObject({ title: 'a', user: { name: 'second' } });
+
+    second.resolve();
+    await succeeding;
+    expect(useStore.getState()).toMatchObject({ title: 'a', user: { name: 'second' } });
+  });
+
+  it('should label its commits and the rollback', async () => {
+    const useStore = createStore();
+    const metas: Array<{ type: string; name: string }> = [];
+    useStore.subscribePatches((_patches, _inverse, meta) => metas.push(meta));
+
+    await useStore.transaction(async ({ set, actions }) => {
+      set({ title: 'b' });
+      actions.add(1);
+      throw new Error('fail');
+    }).catch(() => {});
+
+    expect(metas).toEqual([
+      { type: 'transaction', name: 'transaction' },
+      { type: 'action', name: 'add' },
+      { type: 'rollback', name: 'rollback' },
+    ]);
+  });
+
+  it('should leave no undo step behind when it fails', async () => {
+    const useStore = createStore();
+
+    await useStore.transaction(async ({ set, actions }) => {
+      set({ count: 5 });
+      actions.push('y');
+      throw new Error('fail');
+    }).catch(() => {});
+
+    expect(useStore.history.canUndo).toBe(false);
+    useStore.history.undo();
+    expect(useStore.getState()).toMatchObject({ count: 0, items: ['x'] });
+  });
+
+  it('should record its commits as one undo step when it succeeds', async () => {
+    const useStore = createStore();
+    const gate = deferred();
+
+    const done = useStore.transaction(async ({ set, actions }) => {
+      actions.add(2);
+      set({ title: 'b' });
+      await gate.promise;
+      actions.push('y');
+    });
+    useStore.actions.rename('bob');
+    gate.resolve();
+    await done;
+
+    useStore.history.undo();
+    expect(useStore.getState()).toMatchObject({ count: 0, title: 'a', items: ['x'], user: { name: 'bob' } });
+    useStore.history.undo();
+    expect(useStore.getState()).toMatchObject({ user: { name: 'ann' } });
+    expect(useStore.history.canUndo).toBe(false);
+
+    useStore.history.redo();
+    useStore.history.redo();
+    expect(useStore.getState()).toMatchObject({ count: 2, title: 'b', items: ['x', 'y'], user: { name: 'bob' } });
+  });
+
+  it('should expose slice actions under their namespace', async () => {
+    const useStore = create({
+      state: {},
+      slices: {
+        todos: createSlice({
+          state: { items: [] as string[] },
+          actions: { add(state, item: string) { state.items.push(item); } },
+        }),
+      },
+    });
+
+    await useStore.transaction(async ({ actions }) => {
+      actions.todos.add('a');
+      throw new Error('fail');
+    }).catch(() => {});
+
+    expect(useStore.getState().todos.items).toEqual([]);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import { create } from '../src/create';
+import type { InvalidStateEvent, ValidationResult } from '../src/types';
+
+interface CartState {
+  items: Array<{ id: number; qty: number }>;
+}
+
+const validateCart = (state: CartState): ValidationResult =>
+  state.items.every((item) => item.qty > 0) || [{ path: ['items'], message: 'qty must be positive' }];
+
+const reportInvalid = (event: InvalidStateEvent<CartState>) => {
+  expectTypeOf(event.state.items).toEqualTypeOf<CartState['items']>();
+};
+
+describe('validate types', () => {
+  it('should accept a validator and onInvalid typed for the state in a store with actions', () => {
+    const useStore = create({
+      state: { items: [] } as CartState,
+      actions: {
+        setQty(state, index: number, qty: number) { state.items[index].qty = qty; },
+      },
+      validate: validateCart,
+      onInvalid: reportInvalid,
+    });
+
+    expectTypeOf(useStore.getState().items).toEqualTypeOf<CartState['items']>();
+    expectTypeOf(useStore.actions.setQty).parameters.toEqualTypeOf<[index: number, qty: number]>();
+  });
+});
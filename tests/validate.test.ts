@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest';
+import { create } from '../src/create';
+import { fromSchema } from '../src/middleware/validate';
+import type { InvalidStateEvent, StateStorage, ValidationResult } from '../src/types';
+
+const createMockStorage = (): StateStorage & { store: Map<string, string> } => {
+  const store = new Map<string, string>();
+  return {
+    store,
+    getItem: (key) => store.get(key) ?? null,
+    setItem: (key, val) => store.set(key, val),
+    removeItem: (key) => store.delete(key),
+  };
+};
+
+interface CartState {
+  items: Array<{ id: number; qty: number }>;
+}
+
+const validateCart = (state: CartState): ValidationResult => {
+  if (!Array.isArray(state.items)) return [{ path: ['items'], message: 'must be an array' }];
+  const issues = state.items.flatMap((item, i) =>
+    item.qty > 0 ? [] : [{ path: ['items', i, 'qty'], message: 'must be positive' }]);
+  return issues.length > 0 ? issues : true;
+};
+
+const createCart = (options: { onInvalid?: (event: InvalidStateEvent<CartState>) => void; rejectInvalid?: boolean } = {}) =>
+  create({
+    state: { items: [{ id: 1, qty: 1 }] } as CartState,
+    actions: {
+      setQty(state, index: number, qty: number) { state.items[index].qty = qty; },
+    },
+    validate: validateCart,
+    ...options,
+  });
+
+describe('validate', () => {
+  it('should commit valid states', () => {
+    const useStore = createCart();
+    useStore.actions.setQty(0, 3);
+    expect(useStore.getState().items[0].qty).toBe(3);
+  });
+
+  it('should reject invalid commits and report the action and paths', () => {
+    const onInvalid = vi.fn();
+    const useStore = createCart({ onInvalid });
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+
+    useStore.actions.setQty(0, -1);
+
+    expect(useStore.getState().items[0].qty).toBe(1);
+    expect(listener).not.toHaveBeenCalled();
+    expect(onInvalid).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'action',
+      name: 'setQty',
+      issues: [{ path: ['items', 0, 'qty'], message: 'must be positive' }],
+      rejected: true,
+    }));
+  });
+
+  it('should validate setState', () => {
+    const onInvalid = vi.fn();
+    const useStore = createCart({ onInvalid });
+
+    useStore.setState({ items: 'oops' as any });
+
+    expect(useStore.getState().items).toEqual([{ id: 1, qty: 1 }]);
+    expect(onInvalid.mock.calls[0][0]).toMatchObject({ type: 'setState', issues: [{ path: ['items'] }] });
+  });
+
+  it('should only report when rejectInvalid is false', () => {
+    const onInvalid = vi.fn();
+    const useStore = createCart({ onInvalid, rejectInvalid: false });
+
+    useStore.actions.setQty(0, 0);
+
+    expect(useStore.getState().items[0].qty).toBe(0);
+    expect(onInvalid.mock.calls[0][0].rejected).toBe(false);
+  });
+
+  it('should warn without onInvalid', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const useStore = createCart();
+
+    useStore.actions.setQty(0, -2);
+
+    expect(warn).toHaveBeenCalledWith(
+      '[zustand-immer-lite] rejected invalid state from action "setQty": items.0.qty: must be positive',
+    );
+    warn.mockRestore();
+  });
+
+  it('should treat a throwing validator as a failure', () => {
+    const onInvalid = vi.fn();
+    const useStore = create({
+      state: { user: { name: 'a' } as { name: string } | null },
+      validate: (state) => (state.user!.name.length > 0 ? true : []),
+      onInvalid,
+    });
+
+    useStore.setState({ user: null });
+
+    expect(useStore.getState().user).toEqual({ name: 'a' });
+    expect(onInvalid.mock.calls[0][0].issues[0].path).toEqual([]);
+  });
+
+  it('should fall back to the initial state when persisted state is invalid', () => {
+    const storage = createMockStorage();
+    storage.setItem('cart', JSON.stringify({ state: { items: [{ id: 1, qty: -5 }] }, version: 0 }));
+    const onInvalid = vi.fn();
+
+    const useStore = create({
+      state: { items: [{ id: 1, qty: 1 }] } as CartState,
+      validate: validateCart,
+      onInvalid,
+      persist: { name: 'cart', storage },
+    });
+
+    expect(useStore.getState().items).toEqual([{ id: 1, qty: 1 }]);
+    expect(onInvalid).toHaveBeenCalledWith(expect.objectContaining({ type: 'hydrate', name: 'cart' }));
+  });
+
+  it('should keep valid persisted state', () => {
+    const storage = createMockStorage();
+    storage.setItem('cart', JSON.stringify({ state: { items: [{ id: 2, qty: 4 }] }, version: 0 }));
+
+    const useStore = create({
+      state: { items: [] } as CartState,
+      validate: validateCart,
+      persist: { name: 'cart', storage },
+    });
+
+    expect(useStore.getState().items).toEqual([{ id: 2, qty: 4 }]);
+  });
+
+  it('should adapt safeParse-style schemas', () => {
+    const schema = {
+      safeParse: (value: unknown) => ((value as { count: number }).count >= 0
+        ? { success: true as const }
+        : { success: false as const, error: { issues: [{ path: ['count'], message: 'Too small' }] } }),
+    };
+    const onInvalid = vi.fn();
+    const useStore = create({ state: { count: 0 }, validate: fromSchema(schema), onInvalid });
+
+    useStore.setState({ count: -1 });
+    useStore.setState({ count: 2 });
+
+    expect(useStore.getState().count).toBe(2);
+    expect(onInvalid.mock.calls[0][0].issues).toEqual([{ path: ['count'], message: 'Too small' }]);
+  });
+});